@@ -0,0 +1,6 @@
+/**
+ * Babel используется только jest для трансформации TypeScript-тестов
+ */
+module.exports = {
+    presets: [["@babel/preset-env", { targets: { node: "current" } }], "@babel/preset-typescript"],
+};
@@ -0,0 +1,28 @@
+import js from "@eslint/js";
+import globals from "globals";
+import tseslint from "typescript-eslint";
+import unusedImports from "eslint-plugin-unused-imports";
+import prettier from "eslint-config-prettier";
+
+export default tseslint.config(
+    {
+        ignores: ["dist/", "node_modules/", "fixtures/"],
+    },
+    js.configs.recommended,
+    ...tseslint.configs.recommended,
+    {
+        languageOptions: {
+            globals: globals.node,
+        },
+        plugins: {
+            "unused-imports": unusedImports,
+        },
+        rules: {
+            // Транзакции типизируются Knex.Transaction, клиент таблиц - sheets_v4.Sheets, ответы API - своими типами
+            "@typescript-eslint/no-explicit-any": "error",
+            "@typescript-eslint/no-unused-vars": ["error", { args: "after-used", argsIgnorePattern: "^_", varsIgnorePattern: "^_", caughtErrors: "none", ignoreRestSiblings: true }],
+            "unused-imports/no-unused-imports": "error",
+        },
+    },
+    prettier,
+);
@@ -0,0 +1,12 @@
+/** @type {import("jest").Config} */
+export default {
+    testEnvironment: "node",
+    roots: ["<rootDir>/src"],
+    testMatch: ["**/*.test.ts"],
+    // Импорты ESM с расширением .js и алиасы #* указывают на исходники TypeScript
+    moduleNameMapper: {
+        "^#(.*)\\.js$": "<rootDir>/src/$1",
+        "^(\\.{1,2}/.*)\\.js$": "$1",
+    },
+    setupFiles: ["<rootDir>/src/testSetup.ts"],
+};
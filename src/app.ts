@@ -1,11 +1,15 @@
-import { syncRates } from "#cron/syncRates.js";
-import knex, { migrate, seed } from "#postgres/knex.js";
-import cron from "node-cron";
+import { migrate, seed } from "#postgres/knex.js";
+import { JobScheduler } from "#cron/jobs/JobScheduler.js";
 import { Logger } from "#cron/utils/Logger.js";
+import { SellerService } from "#cron/services/SellerService.js";
+import { startHttpServer } from "#http/server.js";
+import env from "#config/env/env.js";
 
 const logger = new Logger("App");
 
 try {
+    logger.info(`WB API mode: ${env.WB_API_MODE}${env.WB_API_BASE_URL ? ` (${env.WB_API_BASE_URL})` : ""}`);
+
     logger.info("Running database migrations...");
     await migrate.latest();
     logger.info("Database migrations completed");
@@ -14,24 +18,22 @@ try {
     await seed.run();
     logger.info("Database seeds completed");
 
-    const cronSchedule = "0 * * * *";
-    logger.info(`Setting up cron job with schedule: ${cronSchedule} (hourly)`);
-    
-    cron.schedule(cronSchedule, async () => {
-        logger.info("Cron job triggered: Starting rates synchronization...");
-        try {
-            await syncRates();
-            logger.info("Cron job completed successfully");
-        } catch (error) {
-            logger.error("Cron job failed:", error);
-        }
-    }, {
-        scheduled: true,
-        timezone: "Europe/Moscow"
-    });
+    // Без кабинетов с токеном синхронизация ничего не загружает: сообщаем об этом сразу при запуске
+    const sellers = await new SellerService().getActiveSellers();
+    if (sellers.length === 0) {
+        logger.warn("No active sellers configured - set WB_TOKEN or SELLERS_CONFIG_PATH");
+    }
+    for (const seller of sellers.filter(seller => !seller.wb_token)) {
+        logger.warn(`Seller '${seller.name}' has no WB API token`);
+    }
+
+    // Задачи и их расписания - в реестре src/cron/jobs/registry.ts, переопределяются через JOB_SCHEDULES или job_schedules
+    const scheduler = new JobScheduler(env.JOB_TIMEZONE ?? "Europe/Moscow");
+    await scheduler.start();
+
+    await startHttpServer(env.APP_PORT ?? 3000, { scheduler });
 
     logger.info("Application started successfully");
-    logger.info("Cron job is scheduled to run hourly");
     
 } catch (error) {
     logger.error("Failed to start application:", error);
@@ -19,8 +19,52 @@ const envSchema = z.object({
             .regex(/^[0-9]+$/)
             .transform((value) => parseInt(value)),
     ]),
-    WB_TOKEN: z.string(),
+    WB_TOKEN: z.union([z.undefined(), z.string()]),
+    SELLERS_CONFIG_PATH: z.union([z.undefined(), z.string()]),
+    WB_API_TIMEOUT_MS: z.union([
+        z.undefined(),
+        z
+            .string()
+            .regex(/^[0-9]+$/)
+            .transform((value) => parseInt(value)),
+    ]),
+    WB_API_MAX_RETRIES: z.union([
+        z.undefined(),
+        z
+            .string()
+            .regex(/^[0-9]+$/)
+            .transform((value) => parseInt(value)),
+    ]),
+    WB_API_MODE: z.enum(["mock", "live"]).default("live"),
+    WB_API_BASE_URL: z.union([z.undefined(), z.string().url()]),
+    ALERT_RULES_CONFIG_PATH: z.union([z.undefined(), z.string()]),
+    SYNC_TRIGGER_TOKEN: z.union([z.undefined(), z.string().min(16)]),
+    JOB_SCHEDULES: z.union([z.undefined(), z.string()]),
+    JOB_TIMEZONE: z.union([z.undefined(), z.string()]),
+    LOG_LEVEL: z.union([z.undefined(), z.enum(["trace", "debug", "info", "warn", "error"])]),
+    LOG_FORMAT: z.union([z.undefined(), z.enum(["text", "json"])]),
+    HEALTH_MAX_SYNC_AGE_MINUTES: z.union([
+        z.undefined(),
+        z
+            .string()
+            .regex(/^[0-9]+$/)
+            .transform((value) => parseInt(value)),
+    ]),
     SPREADSHEET_PAGE_NAME: z.string(),
+    RECOMMENDATION_VOLUME_LITERS: z.union([
+        z.undefined(),
+        z
+            .string()
+            .regex(/^[0-9]+(\.[0-9]+)?$/)
+            .transform((value) => parseFloat(value)),
+    ]),
+    RECOMMENDATION_STORAGE_DAYS: z.union([
+        z.undefined(),
+        z
+            .string()
+            .regex(/^[0-9]+$/)
+            .transform((value) => parseInt(value)),
+    ]),
     GOOGLE_SERVICE_ACCOUNT_KEY_PATH: z.string(),
     GOOGLE_SPREADSHEETS_CONFIG_PATH: z.string(),
 });
@@ -34,7 +78,21 @@ const env = envSchema.parse({
     NODE_ENV: process.env.NODE_ENV,
     APP_PORT: process.env.APP_PORT,
     WB_TOKEN: process.env.WB_TOKEN,
+    SELLERS_CONFIG_PATH: process.env.SELLERS_CONFIG_PATH,
+    WB_API_TIMEOUT_MS: process.env.WB_API_TIMEOUT_MS,
+    WB_API_MAX_RETRIES: process.env.WB_API_MAX_RETRIES,
+    WB_API_MODE: process.env.WB_API_MODE,
+    WB_API_BASE_URL: process.env.WB_API_BASE_URL,
+    ALERT_RULES_CONFIG_PATH: process.env.ALERT_RULES_CONFIG_PATH,
+    SYNC_TRIGGER_TOKEN: process.env.SYNC_TRIGGER_TOKEN,
+    JOB_SCHEDULES: process.env.JOB_SCHEDULES,
+    JOB_TIMEZONE: process.env.JOB_TIMEZONE,
+    LOG_LEVEL: process.env.LOG_LEVEL,
+    LOG_FORMAT: process.env.LOG_FORMAT,
+    HEALTH_MAX_SYNC_AGE_MINUTES: process.env.HEALTH_MAX_SYNC_AGE_MINUTES,
     SPREADSHEET_PAGE_NAME: process.env.SPREADSHEET_PAGE_NAME,
+    RECOMMENDATION_VOLUME_LITERS: process.env.RECOMMENDATION_VOLUME_LITERS,
+    RECOMMENDATION_STORAGE_DAYS: process.env.RECOMMENDATION_STORAGE_DAYS,
     GOOGLE_SERVICE_ACCOUNT_KEY_PATH: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH,
     GOOGLE_SPREADSHEETS_CONFIG_PATH: process.env.GOOGLE_SPREADSHEETS_CONFIG_PATH,
 });
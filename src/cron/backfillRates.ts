@@ -0,0 +1,124 @@
+import knex from "#postgres/knex.js";
+import { Logger } from "./utils/Logger.js";
+import { WildberriesApiService } from "./services/WildberriesApiService.js";
+import { DataProcessor } from "./services/DataProcessor.js";
+import { Seller, SellerService } from "./services/SellerService.js";
+import { NotFoundError } from "./utils/errors.js";
+import { runExclusive } from "./utils/jobLock.js";
+import { sleep } from "./utils/sleep.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Пауза перед повторной попыткой, пока выполняется sync-rates, мс
+ */
+const LOCK_RETRY_MS = 5_000;
+
+/**
+ * Дни истории считаются по Москве (UTC+3 без перехода на летнее время)
+ */
+const MOSCOW_OFFSET = "+03:00";
+const MOSCOW_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Загрузка истории тарифов коробов за прошлые даты: по одному запросу к WB на каждый день диапазона,
+ * периоды тарифов начинаются с начала этого дня (по Москве). История вставляется и перед уже сохраненными
+ * тарифами: период дня закрывается началом следующего периода склада. Загруженные дни запоминаются
+ * в backfill_days, поэтому прерванную загрузку можно запустить повторно - она продолжится с первого
+ * незагруженного дня. Каждый день загружается под блокировкой sync-rates: синхронизация и загрузка истории
+ * не меняют периоды одних и тех же складов одновременно
+ */
+export async function backfillRates(options: BackfillOptions): Promise<void> {
+    const logger = new Logger("BackfillRates");
+
+    const days = getDays(options.from, options.to);
+    const sellers = await getSellers(options.sellerName);
+    logger.info(`Starting backfill of ${days.length} days (${options.from} - ${options.to}) for ${sellers.length} sellers`);
+
+    for (const seller of sellers) {
+        await backfillSellerRates(seller, days, options.delayMs);
+    }
+
+    logger.info("Backfill completed successfully!");
+}
+
+async function backfillSellerRates(seller: Seller, days: string[], delayMs: number) {
+    const logger = new Logger(`BackfillRates:${seller.name}`);
+
+    const completedDays = new Set(
+        (await knex("backfill_days").where("seller_id", seller.id).select(knex.raw("day::text as day"))).map((row: { day: string }) => row.day),
+    );
+    const pendingDays = days.filter(day => !completedDays.has(day));
+    logger.info(`${completedDays.size} days already loaded, ${pendingDays.length} days pending`);
+
+    const wbService = new WildberriesApiService(seller.wb_token);
+    const processor = new DataProcessor(seller.id);
+
+    const loadDay = async (day: string) => {
+        const wbData = await wbService.getWarehouseBoxRates(day);
+
+        if (!wbData?.warehouseList) {
+            logger.warn(`No data received for ${day} - skipping`);
+            return;
+        }
+
+        const result = await processor.transformAndSaveDataToDb(wbData, startOfDay(day));
+
+        await knex("backfill_days")
+            .insert({ seller_id: seller.id, day, tariff_periods_count: result.tariffPeriodsCount })
+            .onConflict(["seller_id", "day"])
+            .merge();
+
+        logger.info(`Loaded ${day}: ${result.tariffPeriodsCount} tariff periods, ${result.ownersCount} warehouses`);
+    };
+
+    for (const [index, day] of pendingDays.entries()) {
+        if (index > 0) await sleep(delayMs);
+
+        // День не пропускается: загрузка ждет завершения текущего запуска sync-rates
+        while (!(await runExclusive("sync-rates", () => loadDay(day))).acquired) {
+            logger.info(`sync-rates is running - retrying ${day} in ${LOCK_RETRY_MS} ms`);
+            await sleep(LOCK_RETRY_MS);
+        }
+    }
+}
+
+async function getSellers(sellerName?: string): Promise<Seller[]> {
+    const sellerService = new SellerService();
+
+    if (!sellerName) {
+        return sellerService.getActiveSellers();
+    }
+
+    const seller = await sellerService.findSellerByName(sellerName);
+    if (!seller) {
+        throw new NotFoundError(`Seller '${sellerName}' not found`);
+    }
+    return [seller];
+}
+
+/**
+ * Дни диапазона [from, to] по Москве в формате YYYY-MM-DD
+ */
+function getDays(from: string, to: string): string[] {
+    const days: string[] = [];
+    for (let time = startOfDay(from).getTime(); time <= startOfDay(to).getTime(); time += DAY_MS) {
+        days.push(new Date(time + MOSCOW_OFFSET_MS).toISOString().split("T")[0]);
+    }
+    return days;
+}
+
+/**
+ * Начало дня YYYY-MM-DD по Москве
+ */
+function startOfDay(day: string): Date {
+    return new Date(`${day}T00:00:00${MOSCOW_OFFSET}`);
+}
+
+export interface BackfillOptions {
+    from: string;
+    to: string;
+    sellerName?: string;
+    /** Пауза между запросами к WB API, мс */
+    delayMs: number;
+}
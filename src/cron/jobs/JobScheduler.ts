@@ -0,0 +1,106 @@
+import cron, { ScheduledTask } from "node-cron";
+import { Logger } from "../utils/Logger.js";
+import { validateJobs } from "./registry.js";
+import { runJob } from "./runJob.js";
+import { getJobSchedules } from "./schedules.js";
+
+/**
+ * Интервал перечитывания расписаний: изменения в job_schedules применяются без перезапуска
+ */
+const REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * Планировщик задач из реестра по действующим расписаниям
+ */
+export class JobScheduler {
+    private readonly timezone: string;
+    private readonly logger: Logger;
+    private readonly tasks: Map<string, { schedule: string; task: ScheduledTask }>;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    /** Время последнего срабатывания таймера планировщика: признак того, что он жив */
+    private lastTickAt: Date | null;
+
+    constructor(timezone: string) {
+        this.timezone = timezone;
+        this.logger = new Logger("JobScheduler");
+        this.tasks = new Map();
+        this.lastTickAt = null;
+    }
+
+    async start(): Promise<void> {
+        validateJobs();
+        await this.refresh();
+
+        this.lastTickAt = new Date();
+        this.refreshTimer = setInterval(() => {
+            this.lastTickAt = new Date();
+            this.refresh().catch((error) => this.logger.error("Failed to refresh job schedules:", error));
+        }, REFRESH_INTERVAL_MS);
+    }
+
+    stop(): void {
+        clearInterval(this.refreshTimer);
+        this.refreshTimer = undefined;
+        for (const { task } of this.tasks.values()) task.stop();
+        this.tasks.clear();
+    }
+
+    /**
+     * Состояние планировщика для проверки живости: таймер не срабатывал дольше трех интервалов -
+     * планировщик остановлен или event loop завис
+     */
+    getStatus(): JobSchedulerStatus {
+        const running = this.refreshTimer !== undefined;
+        const stale = !this.lastTickAt || Date.now() - this.lastTickAt.getTime() > 3 * REFRESH_INTERVAL_MS;
+
+        return {
+            alive: running && !stale,
+            last_tick_at: this.lastTickAt,
+            scheduled_jobs: [...this.tasks.keys()],
+        };
+    }
+
+    /**
+     * Перепланирование задач, у которых изменилось расписание
+     */
+    async refresh(): Promise<void> {
+        for (const { job, schedule, source } of await getJobSchedules()) {
+            const current = this.tasks.get(job);
+            if ((current?.schedule ?? null) === schedule) continue;
+
+            current?.task.stop();
+            this.tasks.delete(job);
+
+            if (!schedule) {
+                this.logger.info(`Job ${job} is not scheduled (${source}), it runs after its dependencies or manually`);
+                continue;
+            }
+
+            const task = cron.schedule(schedule, () => this.runScheduled(job), {
+                scheduled: true,
+                timezone: this.timezone,
+            });
+            this.tasks.set(job, { schedule, task });
+            this.logger.info(`Job ${job} scheduled: ${schedule} (${source}, ${this.timezone})`);
+        }
+    }
+
+    private async runScheduled(jobName: string): Promise<void> {
+        this.logger.info(`Cron job triggered: ${jobName}`);
+        try {
+            const reports = await runJob(jobName, "cron");
+            const failed = reports.filter((report) => report.status === "failed");
+            if (failed.length > 0) {
+                this.logger.error(`Cron job ${jobName} failed: ${failed.map((report) => `${report.job}: ${report.error}`).join("; ")}`);
+            }
+        } catch (error) {
+            this.logger.error(`Cron job ${jobName} failed:`, error);
+        }
+    }
+}
+
+export interface JobSchedulerStatus {
+    alive: boolean;
+    last_tick_at: Date | null;
+    scheduled_jobs: string[];
+}
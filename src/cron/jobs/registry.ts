@@ -0,0 +1,92 @@
+import { publishSheets } from "../publishSheets.js";
+import { syncAcceptance } from "../syncAcceptance.js";
+import { syncRates } from "../syncRates.js";
+import { SyncTrigger } from "../services/SyncRunService.js";
+import { JobRunResult } from "../utils/jobLock.js";
+
+/**
+ * Реестр задач. Новая задача (например, очистка старых данных) добавляется сюда:
+ * расписание, таймаут и зависимости подхватываются планировщиком, CLI и HTTP API
+ */
+export const JOBS: JobDefinition[] = [
+    {
+        name: "sync-rates",
+        description: "fetch WB rates, save them, send alerts and append changes to the history sheet",
+        defaultSchedule: "0 * * * *",
+        timeoutMs: 30 * 60 * 1000,
+        dependsOn: [],
+        run: ({ trigger, signal }) => syncRates(trigger, signal),
+    },
+    {
+        name: "publish-sheets",
+        description: "publish current rates, commissions and recommended warehouses to Google Sheets",
+        // По умолчанию только после успешной синхронизации тарифов
+        defaultSchedule: null,
+        timeoutMs: 15 * 60 * 1000,
+        dependsOn: ["sync-rates"],
+        run: ({ trigger, signal }) => publishSheets(trigger, signal),
+    },
+    {
+        name: "sync-acceptance",
+        description: "fetch WB acceptance coefficients and save changed slots",
+        // Коэффициенты приемки меняются в течение дня, поэтому опрашиваются чаще тарифов
+        defaultSchedule: "*/10 * * * *",
+        timeoutMs: 5 * 60 * 1000,
+        dependsOn: [],
+        run: ({ trigger, signal }) => syncAcceptance(trigger, signal),
+    },
+];
+
+/**
+ * Поиск задачи по имени
+ */
+export function findJob(name: string): JobDefinition | undefined {
+    return JOBS.find((job) => job.name === name);
+}
+
+/**
+ * Задачи, которые запускаются после успешного завершения задачи name
+ */
+export function getDependentJobs(name: string): JobDefinition[] {
+    return JOBS.filter((job) => job.dependsOn.includes(name));
+}
+
+/**
+ * Проверка реестра: зависимости существуют и не образуют цикл
+ */
+export function validateJobs(): void {
+    const visit = (job: JobDefinition, path: string[]) => {
+        if (path.includes(job.name)) {
+            throw new Error(`Job dependency cycle: ${[...path, job.name].join(" -> ")}`);
+        }
+        for (const dependencyName of job.dependsOn) {
+            const dependency = findJob(dependencyName);
+            if (!dependency) {
+                throw new Error(`Job '${job.name}' depends on unknown job '${dependencyName}'`);
+            }
+            visit(dependency, [...path, job.name]);
+        }
+    };
+
+    for (const job of JOBS) visit(job, []);
+}
+
+/**
+ * Задача реестра
+ */
+export interface JobDefinition {
+    name: string;
+    description: string;
+    /** cron-выражение по умолчанию, null - только после зависимостей или вручную */
+    defaultSchedule: string | null;
+    /** По истечении задача прерывается на ближайшем шаге (между кабинетами или этапами) */
+    timeoutMs: number;
+    /** Задачи, после успешного завершения которых запускается эта */
+    dependsOn: string[];
+    run: (context: JobContext) => Promise<JobRunResult & { runId?: string }>;
+}
+
+export interface JobContext {
+    trigger: SyncTrigger;
+    signal: AbortSignal;
+}
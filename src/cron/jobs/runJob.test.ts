@@ -0,0 +1,71 @@
+import { runJob } from "./runJob.js";
+import { JobDefinition } from "./registry.js";
+
+const mockSyncRates = jest.fn();
+const mockPublishSheets = jest.fn();
+const mockSyncAcceptance = jest.fn();
+
+jest.mock("./registry.js", () => {
+    const jobs = [
+        { name: "sync-rates", defaultSchedule: "0 * * * *", timeoutMs: 60_000, dependsOn: [], run: () => mockSyncRates() },
+        { name: "sync-acceptance", defaultSchedule: null, timeoutMs: 50, dependsOn: [], run: ({ signal }) => mockSyncAcceptance(signal) },
+        { name: "publish-sheets", defaultSchedule: null, timeoutMs: 60_000, dependsOn: ["sync-rates"], run: () => mockPublishSheets() },
+    ] as Partial<JobDefinition>[];
+    return {
+        findJob: (name: string) => jobs.find((job) => job.name === name),
+        getDependentJobs: (name: string) => jobs.filter((job) => job.dependsOn!.includes(name)),
+    };
+});
+
+beforeEach(() => {
+    mockSyncRates.mockReset();
+    mockPublishSheets.mockReset().mockResolvedValue({ status: "succeeded", runId: "publish-run" });
+});
+
+describe("runJob", () => {
+    it("runs dependent jobs after a run that failed only for some sellers", async () => {
+        mockSyncRates.mockResolvedValue({ status: "partial", runId: "sync-run", error: "Rates synchronization failed for 1 of 3 sellers: b" });
+
+        const reports = await runJob("sync-rates", "cli");
+
+        expect(reports.map((report) => [report.job, report.status])).toEqual([
+            ["sync-rates", "partial"],
+            ["publish-sheets", "succeeded"],
+        ]);
+        expect(reports[0].error).toBe("Rates synchronization failed for 1 of 3 sellers: b");
+        expect(mockPublishSheets).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not run dependent jobs after a failed run", async () => {
+        mockSyncRates.mockRejectedValue(new Error("Rates synchronization failed for 3 of 3 sellers: a, b, c"));
+
+        const reports = await runJob("sync-rates", "cli");
+
+        expect(reports.map((report) => [report.job, report.status])).toEqual([["sync-rates", "failed"]]);
+        expect(mockPublishSheets).not.toHaveBeenCalled();
+    });
+
+    it("does not run dependent jobs when asked not to", async () => {
+        mockSyncRates.mockResolvedValue({ status: "succeeded", runId: "sync-run" });
+
+        await runJob("sync-rates", "cli", false);
+
+        expect(mockPublishSheets).not.toHaveBeenCalled();
+    });
+
+    it("aborts the signal passed to the job when its timeout expires", async () => {
+        let jobSignal: AbortSignal | undefined;
+        mockSyncAcceptance.mockImplementation(
+            (signal: AbortSignal) =>
+                new Promise((_resolve, reject) => {
+                    jobSignal = signal;
+                    signal.addEventListener("abort", () => reject(signal.reason));
+                }),
+        );
+
+        const [report] = await runJob("sync-acceptance", "cli");
+
+        expect(jobSignal?.aborted).toBe(true);
+        expect(report).toMatchObject({ job: "sync-acceptance", status: "failed", error: "Job sync-acceptance timed out after 50 ms" });
+    });
+});
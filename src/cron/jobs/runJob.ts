@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import { Logger } from "../utils/Logger.js";
+import { runWithLogContext } from "../utils/logContext.js";
+import { NotFoundError } from "../utils/errors.js";
+import { jobDurationSeconds } from "../utils/metrics.js";
+import { SyncTrigger } from "../services/SyncRunService.js";
+import { findJob, getDependentJobs, JobDefinition } from "./registry.js";
+
+const logger = new Logger("Jobs");
+
+/**
+ * Запуск задачи, а после ее успешного (в том числе частичного - для части кабинетов) завершения -
+ * зависящих от нее задач (withDependents).
+ * Ошибки задач не выбрасываются, а возвращаются в результатах запуска.
+ * Все строки логов запуска, включая зависящие задачи, помечаются общим correlation_id
+ */
+export async function runJob(name: string, trigger: SyncTrigger, withDependents = true): Promise<JobRunReport[]> {
+    const job = findJob(name);
+    if (!job) {
+        throw new NotFoundError(`Job '${name}' not found`);
+    }
+
+    return runWithLogContext({ correlation_id: randomUUID() }, () => runJobChain(job, trigger, withDependents));
+}
+
+async function runJobChain(job: JobDefinition, trigger: SyncTrigger, withDependents: boolean): Promise<JobRunReport[]> {
+    const reports: JobRunReport[] = [];
+    const queue = [job];
+    const started = new Set<string>();
+
+    while (queue.length > 0) {
+        const next = queue.shift()!;
+        if (started.has(next.name)) continue;
+        started.add(next.name);
+
+        const report = await runWithLogContext({ job: next.name }, () => runJobOnce(next, trigger));
+        reports.push(report);
+
+        if (withDependents && (report.status === "succeeded" || report.status === "partial")) {
+            queue.push(...getDependentJobs(next.name));
+        }
+    }
+
+    return reports;
+}
+
+/**
+ * Один запуск задачи с таймаутом
+ */
+async function runJobOnce(job: JobDefinition, trigger: SyncTrigger): Promise<JobRunReport> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`Job ${job.name} timed out after ${job.timeoutMs} ms`)), job.timeoutMs);
+    const startedAt = Date.now();
+
+    logger.info(`Job ${job.name} started (${trigger})`);
+    try {
+        const result = await job.run({ trigger, signal: controller.signal });
+        const durationMs = Date.now() - startedAt;
+
+        if (result.status === "already_running") {
+            logger.warn(`Job ${job.name} skipped: previous run is still in progress`);
+        } else if (result.status === "partial") {
+            logger.warn(`Job ${job.name} partially completed in ${durationMs} ms: ${result.error}`);
+        } else {
+            logger.info(`Job ${job.name} completed in ${durationMs} ms`);
+        }
+        jobDurationSeconds.observe({ job: job.name, status: result.status }, durationMs / 1000);
+        return { job: job.name, status: result.status, run_id: result.runId, duration_ms: durationMs, error: result.error };
+
+    } catch (error) {
+        logger.error(`Job ${job.name} failed:`, error);
+        const durationMs = Date.now() - startedAt;
+        jobDurationSeconds.observe({ job: job.name, status: "failed" }, durationMs / 1000);
+        return {
+            job: job.name,
+            status: "failed",
+            duration_ms: durationMs,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Результат запуска одной задачи
+ */
+export interface JobRunReport {
+    job: string;
+    /** partial - задача не выполнена для части кабинетов, зависящие задачи при этом запускаются */
+    status: "succeeded" | "partial" | "already_running" | "failed";
+    /** ID записи в журнале sync_runs (для задач по кабинетам) */
+    run_id?: string;
+    duration_ms: number;
+    error?: string;
+}
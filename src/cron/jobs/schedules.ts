@@ -0,0 +1,110 @@
+import cron from "node-cron";
+import env from "#config/env/env.js";
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { BadRequestError, NotFoundError } from "../utils/errors.js";
+import { findJob, JOBS } from "./registry.js";
+
+const logger = new Logger("JobSchedules");
+
+/**
+ * Значение расписания, отключающее запуск задачи по расписанию
+ */
+export const DISABLED_SCHEDULE = "off";
+
+/**
+ * Действующие расписания задач. Приоритет: таблица job_schedules (меняется без перезапуска),
+ * затем переменная JOB_SCHEDULES, затем расписание задачи по умолчанию
+ */
+export async function getJobSchedules(): Promise<JobSchedule[]> {
+    const envSchedules = parseScheduleOverrides(env.JOB_SCHEDULES ?? "");
+    const dbRows: { job_name: string; schedule: string | null }[] = await knex("job_schedules").select("job_name", "schedule");
+    const dbSchedules = new Map(
+        dbRows
+            .filter((row) => isValidOverride("job_schedules", row.job_name, row.schedule ?? DISABLED_SCHEDULE))
+            .map((row) => [row.job_name, row.schedule]),
+    );
+
+    return JOBS.map((job) => {
+        if (dbSchedules.has(job.name)) {
+            return { job: job.name, schedule: dbSchedules.get(job.name) ?? null, source: "db" };
+        }
+        if (envSchedules.has(job.name)) {
+            return { job: job.name, schedule: envSchedules.get(job.name) ?? null, source: "env" };
+        }
+        return { job: job.name, schedule: job.defaultSchedule, source: "default" };
+    });
+}
+
+/**
+ * Расписание задачи в таблице job_schedules: cron-выражение или "off"
+ */
+export async function setJobSchedule(jobName: string, schedule: string): Promise<void> {
+    if (!findJob(jobName)) {
+        throw new NotFoundError(`Job '${jobName}' not found`);
+    }
+    if (schedule !== DISABLED_SCHEDULE && !cron.validate(schedule)) {
+        throw new BadRequestError(`Invalid cron expression: '${schedule}'`);
+    }
+
+    await knex("job_schedules")
+        .insert({ job_name: jobName, schedule: schedule === DISABLED_SCHEDULE ? null : schedule, updated_at: knex.fn.now() })
+        .onConflict("job_name")
+        .merge(["schedule", "updated_at"]);
+}
+
+/**
+ * Удаление расписания задачи из job_schedules: снова действует JOB_SCHEDULES или расписание по умолчанию
+ */
+export async function resetJobSchedule(jobName: string): Promise<void> {
+    if (!findJob(jobName)) {
+        throw new NotFoundError(`Job '${jobName}' not found`);
+    }
+
+    await knex("job_schedules").where("job_name", jobName).delete();
+}
+
+/**
+ * Разбор JOB_SCHEDULES вида "sync-rates=15 * * * *;sync-acceptance=off"
+ */
+function parseScheduleOverrides(value: string): Map<string, string | null> {
+    const overrides = new Map<string, string | null>();
+
+    for (const entry of value.split(";")) {
+        if (!entry.trim()) continue;
+
+        const separatorIndex = entry.indexOf("=");
+        const jobName = entry.slice(0, separatorIndex).trim();
+        const schedule = entry.slice(separatorIndex + 1).trim();
+
+        if (separatorIndex < 0 || !isValidOverride("JOB_SCHEDULES", jobName, schedule)) continue;
+        overrides.set(jobName, schedule === DISABLED_SCHEDULE ? null : schedule);
+    }
+
+    return overrides;
+}
+
+/**
+ * Некорректное переопределение не ломает планировщик: оно пропускается с предупреждением
+ */
+function isValidOverride(source: string, jobName: string, schedule: string): boolean {
+    if (!findJob(jobName)) {
+        logger.warn(`Ignoring ${source} schedule of unknown job '${jobName}'`);
+        return false;
+    }
+    if (schedule !== DISABLED_SCHEDULE && !cron.validate(schedule)) {
+        logger.warn(`Ignoring ${source} schedule of job '${jobName}': invalid cron expression '${schedule}'`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Действующее расписание задачи
+ */
+export interface JobSchedule {
+    job: string;
+    /** null - задача запускается только после зависимостей или вручную */
+    schedule: string | null;
+    source: "default" | "env" | "db";
+}
@@ -0,0 +1,60 @@
+import { Logger } from "./utils/Logger.js";
+import { GoogleSheetsService } from "./services/GoogleSheetsService.js";
+import { RatesQueryService } from "./services/RatesQueryService.js";
+import { CostCalculator } from "./services/CostCalculator.js";
+import { Seller } from "./services/SellerService.js";
+import { SellerSyncResult, SyncTrigger } from "./services/SyncRunService.js";
+import { assertSpreadsheetsUpdated, runSellerJob } from "./utils/sellerJob.js";
+import env from "#config/env/env.js";
+
+/**
+ * Публикация актуальных тарифов из БД в Google Sheets для всех активных кабинетов:
+ * тарифы коробов и монопаллет, комиссии и рейтинг складов. Данные WB при этом не запрашиваются
+ */
+export async function publishSheets(trigger: SyncTrigger = "cron", signal?: AbortSignal) {
+    return runSellerJob(
+        { job: "publish-sheets", title: "Sheets publishing", loggerName: "PublishSheets", trigger, signal },
+        (seller, report) => publishSellerSheets(seller, report, signal),
+    );
+}
+
+/**
+ * Публикация листов одного кабинета
+ */
+async function publishSellerSheets(seller: Seller, report: SellerSyncResult, signal?: AbortSignal) {
+    const logger = new Logger(`PublishSheets:${seller.name}`);
+
+    try {
+        // 1. Получение актуальных данных для Google Sheets
+        logger.info("Step 1: Fetching current rates for Google Sheets");
+        const ratesQuery = new RatesQueryService();
+        // Актуальные тарифы (с end_date = null или end_date > now), отсортированные по коэффициенту хранения
+        const currentRates = await ratesQuery.getCurrentRates({ seller_id: seller.id });
+        const currentPalletRates = await ratesQuery.getCurrentPalletRates(seller.id);
+        const currentCommissionRates = await ratesQuery.getCurrentCommissionRates(seller.id);
+        const recommendedWarehouses = await new CostCalculator().rankWarehouses({
+            seller_id: seller.id,
+            volume_liters: env.RECOMMENDATION_VOLUME_LITERS ?? 1,
+            quantity: 1,
+            storage_days: env.RECOMMENDATION_STORAGE_DAYS ?? 30,
+        });
+        logger.info(`Found ${currentRates.length} current rates for Google Sheets`);
+
+        signal?.throwIfAborted();
+
+        // 2. Обновление Google Sheets: ошибка одной таблицы не останавливает запись остальных листов
+        logger.info("Step 2: Updating Google Sheets");
+        const sheetsService = new GoogleSheetsService(env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH);
+        report.spreadsheets.push(...(await sheetsService.updateSpreadsheets(seller.id, currentRates)));
+        report.spreadsheets.push(...(await sheetsService.updatePalletSpreadsheets(seller.id, currentPalletRates)));
+        report.spreadsheets.push(...(await sheetsService.updateCommissionSpreadsheets(seller.id, currentCommissionRates)));
+        report.spreadsheets.push(...(await sheetsService.updateRecommendationSpreadsheets(seller.id, recommendedWarehouses, "recommended_warehouses")));
+        assertSpreadsheetsUpdated(report);
+
+        logger.info("Seller sheets published successfully!");
+
+    } catch (error) {
+        logger.error("Error during seller sheets publishing:", error);
+        throw error;
+    }
+}
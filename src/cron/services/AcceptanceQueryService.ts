@@ -0,0 +1,94 @@
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { Paginated, Pagination } from "./RatesQueryService.js";
+
+/**
+ * Сервис чтения коэффициентов приемки из БД
+ */
+export class AcceptanceQueryService {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger("AcceptanceQueryService");
+    }
+
+    /**
+     * Ближайшие бесплатные или дешевые слоты приемки (по последнему известному состоянию)
+     */
+    async getUpcomingSlots(filters: AcceptanceSlotsFilters, page: Pagination): Promise<Paginated<AcceptanceSlotRow>> {
+        const query = knex("upcoming_acceptance_slots as slots")
+            .leftJoin("warehouses", "slots.warehouse_id", "warehouses.id")
+            .where("slots.coefficient", "<=", filters.maxCoefficient);
+
+        if (filters.sellerId) query.where("slots.seller_id", filters.sellerId);
+        if (filters.boxTypeName) query.where("slots.box_type_name", filters.boxTypeName);
+        if (filters.warehouseName) query.where("slots.warehouse_name", filters.warehouseName);
+        if (filters.geoName) query.where("warehouses.geo_name", filters.geoName);
+        if (filters.from) query.where("slots.date", ">=", filters.from);
+        if (filters.to) query.where("slots.date", "<=", filters.to);
+
+        const countQuery = query.clone().count<{ total: string }[]>("* as total");
+
+        const rows = query
+            .select(
+                "slots.seller_id",
+                knex.raw("slots.date::text as date"),
+                "slots.wb_warehouse_id",
+                "slots.warehouse_name",
+                "warehouses.geo_name",
+                "slots.is_sorting_center",
+                "slots.box_type_id",
+                "slots.box_type_name",
+                knex.raw("slots.coefficient::float as coefficient"),
+                knex.raw("slots.storage_coef::float as storage_coef"),
+                knex.raw("slots.delivery_coef::float as delivery_coef"),
+                "slots.observed_at",
+            )
+            .orderBy("slots.date")
+            .orderBy("slots.coefficient")
+            .orderBy("slots.warehouse_name")
+            .orderBy("slots.box_type_name")
+            .limit(page.limit)
+            .offset(page.offset);
+
+        const [data, [{ total }]] = await Promise.all([rows, countQuery]);
+        this.logger.info(`Retrieved ${data.length} upcoming acceptance slots from database`);
+
+        return {
+            data,
+            pagination: {
+                total: Number(total),
+                limit: page.limit,
+                offset: page.offset,
+            },
+        };
+    }
+}
+
+/**
+ * Типы запросов и результатов
+ */
+export interface AcceptanceSlotsFilters {
+    sellerId?: string;
+    maxCoefficient: number;
+    boxTypeName?: string;
+    warehouseName?: string;
+    geoName?: string;
+    from?: string;
+    to?: string;
+}
+
+export interface AcceptanceSlotRow {
+    seller_id: string;
+    date: string;
+    wb_warehouse_id: number;
+    warehouse_name: string;
+    geo_name: string | null;
+    is_sorting_center: boolean;
+    box_type_id: number | null;
+    box_type_name: string;
+    coefficient: number;
+    storage_coef: number | null;
+    delivery_coef: number | null;
+    observed_at: string;
+}
@@ -0,0 +1,117 @@
+import { alertDedupKey, isInCooldown, matchRule } from "./AlertService.js";
+import { AlertRule } from "./alertRules.js";
+import { RateChange } from "./DataProcessor.js";
+import { BoxRateRow } from "./RatesQueryService.js";
+
+const PERIOD_START = "2026-10-19T00:00:00.000Z";
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+    return {
+        id: "rule-1",
+        name: "Дорогая доставка",
+        field: "box_delivery_base",
+        condition: "above",
+        value: 50,
+        geo_name: null,
+        warehouse_name: null,
+        webhook_url: "https://hooks.example.com/alerts",
+        cooldown_minutes: 60,
+        ...overrides,
+    };
+}
+
+function rate(overrides: Partial<BoxRateRow> = {}): BoxRateRow {
+    return {
+        seller_id: "seller-1",
+        warehouse_id: "w-1",
+        geo_name: "Центральный федеральный округ",
+        warehouse_name: "Коледино",
+        start_date: PERIOD_START,
+        end_date: null,
+        box_delivery_base: 60,
+        box_delivery_coef: 1.2,
+        box_delivery_liter: 11,
+        box_delivery_marketplace_base: 70,
+        box_delivery_marketplace_coef: 1.3,
+        box_delivery_marketplace_liter: 12,
+        box_storage_base: 0.1,
+        box_storage_coef: 1.2,
+        box_storage_liter: 0.05,
+        ...overrides,
+    };
+}
+
+function change(oldValue: number | null, newValue: number | null, changedAt = new Date("2026-10-18T12:00:00.000Z")): RateChange {
+    return {
+        changed_at: changedAt,
+        rates_label: "box",
+        owner_id: "w-1",
+        owner_name: "Центральный федеральный округ - Коледино",
+        fields: [{ field: "box_delivery_base", old_value: oldValue, new_value: newValue }],
+    };
+}
+
+describe("matchRule", () => {
+    it("matches a value above and below the threshold", () => {
+        expect(matchRule(rule(), rate())).toEqual({
+            rule: rule(),
+            warehouseId: "w-1",
+            dedupKey: `w-1|${PERIOD_START}`,
+            message: "Дорогая доставка: Центральный федеральный округ - Коледино, box_delivery_base = 60.00 (порог 50.00)",
+        });
+        expect(matchRule(rule({ condition: "below", value: 70 }), rate())).not.toBeNull();
+        expect(matchRule(rule({ condition: "below", value: 60 }), rate())).toBeNull();
+    });
+
+    it("does not compare an unavailable value with the threshold", () => {
+        expect(matchRule(rule(), rate({ box_delivery_base: null }))).toBeNull();
+    });
+
+    it("skips warehouses outside the rule filters", () => {
+        expect(matchRule(rule({ geo_name: "Приволжский федеральный округ" }), rate())).toBeNull();
+        expect(matchRule(rule({ warehouse_name: "Казань" }), rate())).toBeNull();
+        expect(matchRule(rule({ geo_name: "Центральный федеральный округ", warehouse_name: "Коледино" }), rate())).not.toBeNull();
+    });
+
+    it("matches a rise and a fall in percent by the change that opened the period", () => {
+        const rise = matchRule(rule({ condition: "rise_percent", value: 10 }), rate(), change(50, 60));
+        expect(rise).toMatchObject({
+            dedupKey: "w-1|2026-10-18T12:00:00.000Z",
+            message: "Дорогая доставка: Центральный федеральный округ - Коледино, box_delivery_base 50.00 -> 60.00 (+20.0%)",
+        });
+
+        expect(matchRule(rule({ condition: "rise_percent", value: 25 }), rate(), change(50, 60))).toBeNull();
+        expect(matchRule(rule({ condition: "fall_percent", value: 10 }), rate(), change(60, 50))).toMatchObject({
+            message: expect.stringContaining("(-16.7%)"),
+        });
+        expect(matchRule(rule({ condition: "fall_percent", value: 10 }), rate(), change(50, 60))).toBeNull();
+    });
+
+    it("ignores percent rules without a change or with an unavailable value", () => {
+        expect(matchRule(rule({ condition: "rise_percent", value: 10 }), rate())).toBeNull();
+        expect(matchRule(rule({ condition: "rise_percent", value: 10 }), rate(), change(null, 60))).toBeNull();
+        expect(matchRule(rule({ condition: "rise_percent", value: 10, field: "box_storage_base" }), rate(), change(50, 60))).toBeNull();
+    });
+});
+
+describe("alertDedupKey", () => {
+    it("identifies the tariff period of the warehouse", () => {
+        expect(alertDedupKey("w-1", "2026-10-19T03:00:00+03:00")).toBe("w-1|2026-10-19T00:00:00.000Z");
+        expect(alertDedupKey("w-1", new Date("2026-10-19T00:00:00.000Z"))).toBe(alertDedupKey("w-1", PERIOD_START));
+        expect(alertDedupKey("w-2", PERIOD_START)).not.toBe(alertDedupKey("w-1", PERIOD_START));
+    });
+});
+
+describe("isInCooldown", () => {
+    const now = new Date("2026-10-19T12:00:00.000Z");
+
+    it("is silent within cooldown_minutes after the last sent notification", () => {
+        expect(isInCooldown(rule(), new Date("2026-10-19T11:30:00.000Z"), now)).toBe(true);
+        expect(isInCooldown(rule(), new Date("2026-10-19T11:00:00.000Z"), now)).toBe(false);
+    });
+
+    it("sends when nothing was sent or the cooldown is zero", () => {
+        expect(isInCooldown(rule(), null, now)).toBe(false);
+        expect(isInCooldown(rule({ cooldown_minutes: 0 }), now, now)).toBe(false);
+    });
+});
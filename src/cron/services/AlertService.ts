@@ -0,0 +1,253 @@
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { ALERT_RULE_COLUMNS, AlertRule, alertRuleSchema } from "./alertRules.js";
+import { changePercent, RateChange } from "./DataProcessor.js";
+import { BOX_RATES_TABLE } from "./rateTables.js";
+import { BoxRateRow, RatesQueryService } from "./RatesQueryService.js";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Уведомления по правилам кабинета: проверка актуальных тарифов коробов и их изменений,
+ * отправка сработавших правил во вебхуки с дедупликацией и интервалом тишины.
+ * Изменения читаются из rate_change_events после курсора кабинета (alert_event_cursors), поэтому
+ * изменения, сохраненные перед сбоем синхронизации или неудачной отправкой, проверяются следующим запуском
+ */
+export class AlertService {
+    private readonly sellerId: string;
+    private readonly logger: Logger;
+
+    constructor(sellerId: string) {
+        this.sellerId = sellerId;
+        this.logger = new Logger("AlertService");
+    }
+
+    /**
+     * Проверка правил после сохранения тарифов коробов: пороги - по актуальным тарифам,
+     * изменения в процентах - по событиям после курсора. Курсор сдвигается, если удались все отправки по изменениям
+     */
+    async processBoxRates(): Promise<AlertProcessResult> {
+        const rules = await this.getActiveRules();
+        const { events, lastEventId } = await this.getPendingBoxChanges();
+
+        if (rules.length === 0) {
+            this.logger.info("No active alert rules");
+            await this.saveCursor(lastEventId);
+            return { matchedCount: 0, sentCount: 0, failedCount: 0 };
+        }
+
+        const currentRates = await new RatesQueryService().getCurrentRates({ seller_id: this.sellerId });
+        const ratesByWarehouse = new Map(currentRates.map(rate => [rate.warehouse_id, rate]));
+
+        const matches = rules.flatMap(rule => {
+            if (rule.condition === "above" || rule.condition === "below") {
+                return currentRates.map(rate => matchRule(rule, rate));
+            }
+            // Склад без актуальных тарифов (пропал из ответа WB) не проверяется
+            return events.map(event => {
+                const rate = ratesByWarehouse.get(event.owner_id);
+                return rate ? matchRule(rule, rate, event) : null;
+            });
+        }).filter((match): match is AlertMatch => match !== null);
+
+        this.logger.info(`Evaluated ${rules.length} alert rules against ${currentRates.length} current rates and ${events.length} rate changes: ${matches.length} matches`);
+
+        let sentCount = 0;
+        let failedCount = 0;
+        let failedChangesCount = 0;
+        for (const match of matches) {
+            const status = await this.notify(match);
+            if (status === "sent") sentCount++;
+            if (status === "failed") failedCount++;
+            if (status === "failed" && match.rule.condition !== "above" && match.rule.condition !== "below") failedChangesCount++;
+        }
+
+        // Неотправленные уведомления об изменениях повторяются следующим запуском, отправленные отсекает dedup_key.
+        // Пороги проверяются по актуальным тарифам при каждом запуске и курсор не держат
+        if (failedChangesCount === 0) {
+            await this.saveCursor(lastEventId);
+        }
+
+        return { matchedCount: matches.length, sentCount, failedCount };
+    }
+
+    /**
+     * Изменения тарифов коробов кабинета после курсора и последнее событие кабинета (любых тарифов)
+     */
+    private async getPendingBoxChanges(): Promise<{ events: RateChange[]; lastEventId: number | null }> {
+        const cursor = await knex("alert_event_cursors").where("seller_id", this.sellerId).first("last_event_id");
+        const afterEventId = Number(cursor?.last_event_id ?? 0);
+
+        const last = await knex("rate_change_events").where("seller_id", this.sellerId).where("id", ">", afterEventId).max("id as id").first();
+        if (!last?.id) return { events: [], lastEventId: null };
+
+        const events: RateChange[] = await knex("rate_change_events")
+            .where("seller_id", this.sellerId)
+            .where("rates_label", BOX_RATES_TABLE.label)
+            .where("id", ">", afterEventId)
+            .where("id", "<=", last.id)
+            .orderBy("id")
+            .select("changed_at", "rates_label", "owner_id", "owner_name", "fields");
+
+        return { events, lastEventId: Number(last.id) };
+    }
+
+    private async saveCursor(lastEventId: number | null): Promise<void> {
+        if (lastEventId === null) return;
+
+        await knex("alert_event_cursors")
+            .insert({ seller_id: this.sellerId, last_event_id: lastEventId, updated_at: knex.fn.now() })
+            .onConflict("seller_id")
+            .merge(["last_event_id", "updated_at"]);
+    }
+
+    private async getActiveRules(): Promise<AlertRule[]> {
+        const rows = await knex("alert_rules")
+            .where("seller_id", this.sellerId)
+            .where("is_active", true)
+            .select(...ALERT_RULE_COLUMNS)
+            .orderBy("name");
+
+        // Некорректное правило не должно мешать остальным
+        return rows.flatMap(row => {
+            const rule = alertRuleSchema.safeParse(row);
+            if (!rule.success) {
+                this.logger.warn(`Invalid alert rule '${row.name}' skipped: ${rule.error.message}`);
+                return [];
+            }
+            return [rule.data];
+        });
+    }
+
+    /**
+     * Отправка уведомления с учетом дедупликации и интервала тишины
+     */
+    private async notify(match: AlertMatch): Promise<"sent" | "failed" | "skipped"> {
+        const { rule, warehouseId, dedupKey, message } = match;
+
+        const duplicate = await knex("alert_notifications")
+            .where({ rule_id: rule.id, dedup_key: dedupKey, status: "sent" })
+            .first("id");
+        if (duplicate) {
+            this.logger.info(`Alert '${rule.name}' already sent for ${dedupKey} - skipped`);
+            return "skipped";
+        }
+
+        const lastSent = await knex("alert_notifications")
+            .where({ rule_id: rule.id, warehouse_id: warehouseId, status: "sent" })
+            .max("created_at as created_at")
+            .first();
+        if (isInCooldown(rule, lastSent?.created_at ?? null, new Date())) {
+            this.logger.info(`Alert '${rule.name}' is in cooldown for warehouse ${warehouseId} - skipped`);
+            return "skipped";
+        }
+
+        let error: string | null = null;
+        try {
+            await this.sendWebhook(rule.webhook_url, { text: message, rule: rule.name, field: rule.field, condition: rule.condition });
+            this.logger.info(`Alert '${rule.name}' sent: ${message}`);
+        } catch (sendError) {
+            error = sendError instanceof Error ? sendError.message : String(sendError);
+            this.logger.error(`Failed to send alert '${rule.name}':`, sendError);
+        }
+
+        await knex("alert_notifications").insert({
+            rule_id: rule.id,
+            warehouse_id: warehouseId,
+            dedup_key: dedupKey,
+            message,
+            status: error ? "failed" : "sent",
+            error,
+        });
+
+        return error ? "failed" : "sent";
+    }
+
+    private async sendWebhook(url: string, payload: Record<string, unknown>): Promise<void> {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+        }
+    }
+}
+
+/**
+ * Проверка правила по тарифам склада; для изменения в процентах нужно изменение тарифов, открывшее период (change)
+ */
+export function matchRule(rule: AlertRule, rate: BoxRateRow, change?: RateChange): AlertMatch | null {
+    if (rule.geo_name && rule.geo_name !== rate.geo_name) return null;
+    if (rule.warehouse_name && rule.warehouse_name !== rate.warehouse_name) return null;
+
+    const value = rate[rule.field];
+    const place = `${rate.geo_name} - ${rate.warehouse_name}`;
+    const match = {
+        rule,
+        warehouseId: rate.warehouse_id,
+        dedupKey: alertDedupKey(rate.warehouse_id, change?.changed_at ?? rate.start_date),
+    };
+
+    switch (rule.condition) {
+        case "above":
+        case "below": {
+            // Недоступное значение не сравнивается с порогом
+            if (value === null) return null;
+
+            const matched = rule.condition === "above" ? value > rule.value : value < rule.value;
+            if (!matched) return null;
+
+            return { ...match, message: `${rule.name}: ${place}, ${rule.field} = ${value.toFixed(2)} (порог ${rule.value.toFixed(2)})` };
+        }
+        case "rise_percent":
+        case "fall_percent": {
+            const fieldChange = change?.fields.find(fieldChange => fieldChange.field === rule.field);
+            const percent = fieldChange && changePercent(fieldChange);
+            if (!fieldChange || percent === null || percent === undefined) return null;
+
+            const matched = rule.condition === "rise_percent" ? percent > rule.value : -percent > rule.value;
+            if (!matched) return null;
+
+            const sign = percent > 0 ? "+" : "";
+            return {
+                ...match,
+                message: `${rule.name}: ${place}, ${rule.field} ${fieldChange.old_value!.toFixed(2)} -> ${fieldChange.new_value!.toFixed(2)} (${sign}${percent.toFixed(1)}%)`,
+            };
+        }
+    }
+}
+
+/**
+ * Ключ дедупликации: правило срабатывает не больше одного раза на период тарифов склада
+ */
+export function alertDedupKey(warehouseId: string, periodStart: Date | string): string {
+    return `${warehouseId}|${new Date(periodStart).toISOString()}`;
+}
+
+/**
+ * Интервал тишины: после отправленного уведомления по складу правило молчит cooldown_minutes
+ */
+export function isInCooldown(rule: Pick<AlertRule, "cooldown_minutes">, lastSentAt: Date | string | null, now: Date): boolean {
+    if (lastSentAt === null) return false;
+    return now.getTime() - new Date(lastSentAt).getTime() < rule.cooldown_minutes * 60_000;
+}
+
+/**
+ * Результат проверки правил
+ */
+export interface AlertProcessResult {
+    matchedCount: number;
+    sentCount: number;
+    failedCount: number;
+}
+
+export interface AlertMatch {
+    rule: AlertRule;
+    warehouseId: string;
+    dedupKey: string;
+    message: string;
+}
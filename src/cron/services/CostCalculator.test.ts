@@ -0,0 +1,127 @@
+import { CostCalculator } from "./CostCalculator.js";
+import { BoxRateRow } from "./RatesQueryService.js";
+
+const mockGetRatesAt = jest.fn();
+
+jest.mock("./RatesQueryService.js", () => ({
+    RatesQueryService: jest.fn().mockImplementation(() => ({ getRatesAt: mockGetRatesAt })),
+}));
+jest.mock("./SellerService.js", () => ({
+    SellerService: jest.fn().mockImplementation(() => ({ findSellerByName: async () => ({ id: "seller-default", name: "default" }) })),
+}));
+
+const AT = new Date("2026-10-19T09:00:00.000Z");
+
+function boxRate(warehouseName: string, overrides: Partial<BoxRateRow> = {}): BoxRateRow {
+    return {
+        seller_id: "seller-default",
+        warehouse_id: `id-${warehouseName}`,
+        geo_name: "Центральный федеральный округ",
+        warehouse_name: warehouseName,
+        start_date: "2026-10-19T00:00:00.000Z",
+        end_date: null,
+        box_delivery_base: 46,
+        box_delivery_coef: 1.15,
+        box_delivery_liter: 11.2,
+        box_delivery_marketplace_base: 50,
+        box_delivery_marketplace_coef: 1.25,
+        box_delivery_marketplace_liter: 12,
+        box_storage_base: 0.1,
+        box_storage_coef: 1.2,
+        box_storage_liter: 0.05,
+        ...overrides,
+    };
+}
+
+beforeEach(() => {
+    mockGetRatesAt.mockReset();
+});
+
+describe("CostCalculator.calculate", () => {
+    it("charges the first liter and every extra liter of the volume", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино")]);
+
+        const result = await new CostCalculator().calculate({ warehouse_name: "Коледино", volume_liters: 3.5, quantity: 2, storage_days: 10, at: AT });
+
+        expect(mockGetRatesAt).toHaveBeenCalledWith({ seller_id: "seller-default", warehouse_id: undefined, warehouse_name: "Коледино" }, AT);
+        expect(result.fbo_logistics).toEqual({ first_liter: 46, extra_liter_rate: 11.2, extra_liters: 2.5, coef: 1.15, per_unit: 74, total: 148 });
+        expect(result.fbs_logistics).toMatchObject({ per_unit: 80, total: 160 });
+    });
+
+    it("charges only the first liter for a volume below one liter", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино")]);
+
+        const result = await new CostCalculator().calculate({ warehouse_name: "Коледино", length_cm: 10, width_cm: 10, height_cm: 5, quantity: 1, storage_days: 0, at: AT });
+
+        expect(result.volume_liters).toBe(0.5);
+        expect(result.fbo_logistics).toMatchObject({ extra_liters: 0, per_unit: 46, total: 46 });
+    });
+
+    it("shows the warehouse coefficient without applying it again", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино", { box_delivery_coef: 2 })]);
+
+        const result = await new CostCalculator().calculate({ warehouse_name: "Коледино", volume_liters: 1, quantity: 1, storage_days: 0, at: AT });
+
+        expect(result.fbo_logistics).toMatchObject({ coef: 2, per_unit: 46 });
+    });
+
+    it("multiplies the daily storage cost by the storage days", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино")]);
+
+        const result = await new CostCalculator().calculate({ warehouse_name: "Коледино", volume_liters: 3, quantity: 4, storage_days: 30, at: AT });
+
+        expect(result.storage).toEqual({
+            per_day: { first_liter: 0.1, extra_liter_rate: 0.05, extra_liters: 2, coef: 1.2, per_unit: 0.2, total: 0.8 },
+            days: 30,
+            total: 24,
+        });
+        expect(result.total_fbo).toBe(297.6);
+    });
+
+    it("returns null for rates WB does not provide at the warehouse", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино", { box_delivery_base: null, box_storage_liter: null })]);
+
+        const result = await new CostCalculator().calculate({ warehouse_name: "Коледино", volume_liters: 2, quantity: 1, storage_days: 5, at: AT });
+
+        expect(result.fbo_logistics).toBeNull();
+        expect(result.fbs_logistics).not.toBeNull();
+        expect(result.storage).toEqual({ per_day: null, days: 5, total: null });
+        expect(result.total_fbo).toBeNull();
+    });
+
+    it("rejects a warehouse without rates and an ambiguous warehouse name", async () => {
+        const calculator = new CostCalculator();
+        const input = { warehouse_name: "Коледино", volume_liters: 1, quantity: 1, storage_days: 0, at: AT };
+
+        mockGetRatesAt.mockResolvedValue([]);
+        await expect(calculator.calculate(input)).rejects.toMatchObject({ name: "NotFoundError" });
+
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино"), boxRate("Коледино", { warehouse_id: "id-other" })]);
+        await expect(calculator.calculate(input)).rejects.toMatchObject({ name: "BadRequestError" });
+    });
+});
+
+describe("CostCalculator.rankWarehouses", () => {
+    it("ranks warehouses by logistics and storage from the cheapest and skips warehouses without rates", async () => {
+        mockGetRatesAt.mockResolvedValue([
+            boxRate("Коледино"),
+            boxRate("Казань", { geo_name: "Приволжский федеральный округ", box_delivery_base: 30 }),
+            boxRate("Тула", { box_storage_base: null }),
+        ]);
+
+        const ranking = await new CostCalculator().rankWarehouses({ volume_liters: 1, quantity: 1, storage_days: 10, at: AT });
+
+        expect(ranking).toEqual([
+            { rank: 1, id: "id-Казань", geo_name: "Приволжский федеральный округ", warehouse_name: "Казань", fbo_logistics: 30, storage_per_day: 0.1, storage: 1, total: 31 },
+            { rank: 2, id: "id-Коледино", geo_name: "Центральный федеральный округ", warehouse_name: "Коледино", fbo_logistics: 46, storage_per_day: 0.1, storage: 1, total: 47 },
+        ]);
+    });
+
+    it("keeps only warehouses of the requested regions", async () => {
+        mockGetRatesAt.mockResolvedValue([boxRate("Коледино"), boxRate("Казань", { geo_name: "Приволжский федеральный округ" })]);
+
+        const ranking = await new CostCalculator().rankWarehouses({ volume_liters: 1, quantity: 1, storage_days: 0, at: AT, geo_names: ["Приволжский федеральный округ"] });
+
+        expect(ranking.map((warehouse) => warehouse.warehouse_name)).toEqual(["Казань"]);
+    });
+});
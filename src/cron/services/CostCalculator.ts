@@ -0,0 +1,189 @@
+import { Logger } from "../utils/Logger.js";
+import { BadRequestError, NotFoundError } from "../utils/errors.js";
+import { CostCalculationInput, ProductVolume, WarehouseRankingInput } from "./costCalculation.js";
+import { BoxRateRow, RatesQueryService } from "./RatesQueryService.js";
+import { SellerService } from "./SellerService.js";
+
+const DEFAULT_SELLER_NAME = "default";
+
+/**
+ * Калькулятор стоимости логистики (FBO и FBS) и хранения товара по тарифам коробов склада,
+ * действовавшим в заданный момент времени.
+ * Тарифы WB за первый и дополнительный литр уже учитывают коэффициент склада,
+ * коэффициент показывается в расшифровке справочно
+ */
+export class CostCalculator {
+    private readonly logger: Logger;
+    private readonly ratesQuery: RatesQueryService;
+
+    constructor() {
+        this.logger = new Logger("CostCalculator");
+        this.ratesQuery = new RatesQueryService();
+    }
+
+    async calculate(input: CostCalculationInput): Promise<CostCalculation> {
+        const at = input.at ?? new Date();
+        const sellerId = input.seller_id ?? (await this.getDefaultSellerId());
+
+        const rates = await this.ratesQuery.getRatesAt(
+            { seller_id: sellerId, warehouse_id: input.warehouse_id, warehouse_name: input.warehouse_name },
+            at,
+        );
+
+        const warehouse = input.warehouse_id ?? input.warehouse_name;
+        if (rates.length === 0) {
+            throw new NotFoundError(`No box rates for warehouse ${warehouse} at ${at.toISOString()}`);
+        }
+        if (rates.length > 1) {
+            throw new BadRequestError(`Warehouse ${warehouse} matches ${rates.length} rates, use warehouse_id`);
+        }
+
+        const [rate] = rates;
+        const volumeLiters = getVolumeLiters(input);
+
+        this.logger.info(`Calculating costs for ${input.quantity} x ${volumeLiters.toFixed(3)} l at ${rate.warehouse_name} (${at.toISOString()})`);
+
+        return this.calculateForRate(rate, at, volumeLiters, input.quantity, input.storage_days);
+    }
+
+    /**
+     * Рейтинг складов по суммарной стоимости логистики FBO и хранения за storage_days дней
+     * (от дешевых к дорогим), при заданных geo_names - только склады этих регионов
+     */
+    async rankWarehouses(input: WarehouseRankingInput): Promise<WarehouseRanking[]> {
+        const at = input.at ?? new Date();
+        const sellerId = input.seller_id ?? (await this.getDefaultSellerId());
+        const volumeLiters = getVolumeLiters(input);
+
+        const geoNames = input.geo_names && new Set(input.geo_names);
+        const rates = (await this.ratesQuery.getRatesAt({ seller_id: sellerId }, at))
+            .filter(rate => !geoNames || geoNames.has(rate.geo_name));
+
+        this.logger.info(`Ranking ${rates.length} warehouses for ${input.quantity} x ${volumeLiters.toFixed(3)} l over ${input.storage_days} days`);
+
+        // Склады без тарифов логистики или хранения в рейтинг не попадают
+        return rates
+            .map(rate => this.calculateForRate(rate, at, volumeLiters, input.quantity, input.storage_days))
+            .flatMap(({ warehouse, fbo_logistics, storage }) =>
+                fbo_logistics && storage.per_day && storage.total !== null
+                    ? [{ warehouse, fbo_logistics: fbo_logistics.total, storage_per_day: storage.per_day.total, storage: storage.total }]
+                    : [],
+            )
+            .map((calculation) => ({ ...calculation, total: round(calculation.fbo_logistics + calculation.storage) }))
+            .sort((a, b) => a.total - b.total)
+            .map(({ warehouse, ...costs }, index) => ({ rank: index + 1, ...warehouse, ...costs }));
+    }
+
+    private calculateForRate(rate: BoxRateRow, at: Date, volumeLiters: number, quantity: number, storageDays: number): CostCalculation {
+        const fboLogistics = this.calculateByVolume(rate.box_delivery_base, rate.box_delivery_liter, rate.box_delivery_coef, volumeLiters, quantity);
+        const fbsLogistics = this.calculateByVolume(
+            rate.box_delivery_marketplace_base,
+            rate.box_delivery_marketplace_liter,
+            rate.box_delivery_marketplace_coef,
+            volumeLiters,
+            quantity,
+        );
+        const storagePerDay = this.calculateByVolume(rate.box_storage_base, rate.box_storage_liter, rate.box_storage_coef, volumeLiters, quantity);
+        const storage = {
+            per_day: storagePerDay,
+            days: storageDays,
+            total: storagePerDay && round(storagePerDay.total * storageDays),
+        };
+
+        return {
+            at: at.toISOString(),
+            seller_id: rate.seller_id,
+            warehouse: this.toWarehouse(rate),
+            tariff_period: { start_date: rate.start_date, end_date: rate.end_date },
+            volume_liters: round(volumeLiters, 3),
+            quantity,
+            fbo_logistics: fboLogistics,
+            fbs_logistics: fbsLogistics,
+            storage,
+            total_fbo: fboLogistics && storage.total !== null ? round(fboLogistics.total + storage.total) : null,
+        };
+    }
+
+    /**
+     * Стоимость по схеме WB: первый литр + каждый дополнительный литр объема
+     * (null, если WB не указал тариф для склада)
+     */
+    private calculateByVolume(base: number | null, literRate: number | null, coef: number | null, volumeLiters: number, quantity: number): VolumeCost | null {
+        if (base === null || literRate === null) return null;
+
+        const extraLiters = Math.max(0, volumeLiters - 1);
+        const perUnit = base + literRate * extraLiters;
+
+        return {
+            first_liter: base,
+            extra_liter_rate: literRate,
+            extra_liters: round(extraLiters, 3),
+            coef,
+            per_unit: round(perUnit),
+            total: round(perUnit * quantity),
+        };
+    }
+
+    private toWarehouse(rate: BoxRateRow) {
+        return { id: rate.warehouse_id, geo_name: rate.geo_name, warehouse_name: rate.warehouse_name };
+    }
+
+    private async getDefaultSellerId(): Promise<string> {
+        const seller = await new SellerService().findSellerByName(DEFAULT_SELLER_NAME);
+        if (!seller) {
+            throw new NotFoundError(`Seller '${DEFAULT_SELLER_NAME}' not found, specify seller_id`);
+        }
+        return seller.id;
+    }
+}
+
+function getVolumeLiters(product: ProductVolume): number {
+    return product.volume_liters ?? (product.length_cm! * product.width_cm! * product.height_cm!) / 1000;
+}
+
+function round(value: number, digits = 2): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Результат расчета
+ */
+export interface VolumeCost {
+    first_liter: number;
+    extra_liter_rate: number;
+    extra_liters: number;
+    coef: number | null;
+    per_unit: number;
+    total: number;
+}
+
+export interface CostCalculation {
+    at: string;
+    seller_id: string;
+    warehouse: { id: string; geo_name: string; warehouse_name: string };
+    tariff_period: { start_date: string; end_date: string | null };
+    volume_liters: number;
+    quantity: number;
+    /** null - WB не указал тариф для склада */
+    fbo_logistics: VolumeCost | null;
+    fbs_logistics: VolumeCost | null;
+    /** Хранение: стоимость за день и за весь срок */
+    storage: { per_day: VolumeCost | null; days: number; total: number | null };
+    /** Логистика FBO и хранение */
+    total_fbo: number | null;
+}
+
+/**
+ * Место склада в рейтинге (суммы - за все единицы товара)
+ */
+export interface WarehouseRanking {
+    rank: number;
+    id: string;
+    geo_name: string;
+    warehouse_name: string;
+    fbo_logistics: number;
+    storage_per_day: number;
+    storage: number;
+    total: number;
+}
@@ -1,312 +1,841 @@
+import { randomUUID } from "crypto";
 import { Logger } from "../utils/Logger.js";
-import { WbWarehouseBoxRatesResponse, WbWarehouseBoxRate } from "./WildberriesApiService.js";
+import {
+    WbAcceptanceCoefficient,
+    WbSubjectCommissionsResponse,
+    WbWarehouseBoxRatesResponse,
+    WbWarehousePalletRatesResponse,
+    WbWarehouseReturnRatesResponse,
+} from "./WildberriesApiService.js";
+import {
+    BOX_RATES_TABLE,
+    BoxRateField,
+    COMMISSION_RATES_TABLE,
+    CommissionRateField,
+    PALLET_RATES_TABLE,
+    PalletRateField,
+    RatesTable,
+    RETURN_RATES_TABLE,
+    ReturnRateField,
+    WAREHOUSE_RATES_TABLES,
+} from "./rateTables.js";
+import {
+    wbAcceptanceCoefficientSchema,
+    wbBoxRateSchema,
+    wbBoxRatesResponseSchema,
+    wbPalletRateSchema,
+    wbPalletRatesResponseSchema,
+    wbReturnRateSchema,
+    wbReturnRatesResponseSchema,
+    wbSubjectCommissionSchema,
+    wbSubjectCommissionsResponseSchema,
+} from "./wbSchemas.js";
+import { CurrentRate, detectRateChange, selectMissingOwnerRates, tariffPeriodEndsAfter } from "./tariffPeriods.js";
+import { Knex } from "knex";
 import knex from "#postgres/knex.js";
+import { z } from "zod";
 
+/**
+ * Строк в одном многострочном INSERT: не упираемся в лимит параметров запроса Postgres (65535)
+ */
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Обработка и сохранение данных WB одного кабинета продавца
+ */
 export class DataProcessor {
+    private readonly sellerId: string;
     private readonly logger: Logger;
 
-    constructor() {
+    constructor(sellerId: string) {
+        this.sellerId = sellerId;
         this.logger = new Logger("DataProcessor");
     }
 
-    async transformAndSaveDataToDb(wbData: WbWarehouseBoxRatesResponse): Promise<ProcessResult> {
+    /**
+     * Сохранение тарифов коробов; effectiveAt - момент, с которого действуют тарифы
+     * (для загрузки истории за прошлые даты, по умолчанию - текущее время)
+     */
+    async transformAndSaveDataToDb(wbData: WbWarehouseBoxRatesResponse, effectiveAt?: Date): Promise<ProcessResult> {
         this.logger.info("Starting data transformation and saving to database");
 
+        return this.saveRates(BOX_RATES_TABLE, () => this.convertWbDataToProcessedData(wbData), effectiveAt);
+    }
+
+    async transformAndSavePalletDataToDb(wbData: WbWarehousePalletRatesResponse): Promise<ProcessResult> {
+        this.logger.info("Starting pallet data transformation and saving to database");
+
+        return this.saveRates(PALLET_RATES_TABLE, () => this.convertWbPalletDataToProcessedData(wbData));
+    }
+
+    async transformAndSaveReturnDataToDb(wbData: WbWarehouseReturnRatesResponse): Promise<ProcessResult> {
+        this.logger.info("Starting return data transformation and saving to database");
+
+        return this.saveRates(RETURN_RATES_TABLE, () => this.convertWbReturnDataToProcessedData(wbData));
+    }
+
+    async transformAndSaveCommissionDataToDb(wbData: WbSubjectCommissionsResponse): Promise<ProcessResult> {
+        this.logger.info("Starting commission data transformation and saving to database");
+
+        return await knex.transaction(async (trx) => {
+            try {
+                const processedData = this.convertWbCommissionDataToProcessedData(wbData);
+                await this.saveQuarantinedRows(processedData.quarantined, trx);
+
+                // Обрабатываем предметы (категории товаров) и заполняем их ID
+                await this.processSubjects(processedData, trx);
+
+                const owners = processedData.subjects.map(subject => ({
+                    id: subject.id,
+                    name: subject.subject_name,
+                    label: `subject ${subject.wb_subject_id} ${subject.subject_name}`,
+                }));
+                const result = await this.processTariffPeriodsAndRates(COMMISSION_RATES_TABLE, owners, processedData.rates, processedData.tariffPeriodEndDate, processedData.quarantined.length, trx);
+
+                this.logger.info(`Successfully processed: ${result.tariffPeriodsCount} tariff periods, ${processedData.subjects.length} subjects, ${result.ratesCount} commission rates`);
+
+                return { ...result, quarantinedCount: processedData.quarantined.length };
+
+            } catch (error) {
+                this.logger.error("Error during data processing:", error);
+                throw new Error(`Data processing failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    }
+
+    /**
+     * Сохранение коэффициентов приемки: новая строка пишется только для слотов (склад, дата, тип поставки),
+     * у которых изменилось состояние с прошлого опроса - так накапливается история изменений
+     */
+    async saveAcceptanceCoefficients(coefficients: WbAcceptanceCoefficient[]): Promise<AcceptanceProcessResult> {
+        this.logger.info(`Starting processing of ${coefficients.length} acceptance coefficients`);
+
+        return await knex.transaction(async (trx) => {
+            try {
+                const observedAt = new Date();
+                const { rows: validCoefficients, quarantined } = this.validateRows("acceptance", wbAcceptanceCoefficientSchema, coefficients);
+                await this.saveQuarantinedRows(quarantined, trx);
+                const rows = validCoefficients.map(coefficient => this.convertWbAcceptanceCoefficient(coefficient, observedAt));
+
+                if (rows.length === 0) {
+                    return { receivedCount: 0, changedCount: 0, quarantinedCount: quarantined.length };
+                }
+
+                // Связываем слоты со складами по названию
+                const warehouseNames = [...new Set(rows.map(row => row.warehouse_name))];
+                const knownWarehouses: { id: string; warehouse_name: string }[] = await trx('warehouses')
+                    .whereIn('warehouse_name', warehouseNames)
+                    .select('id', 'warehouse_name');
+                const warehouseIds = new Map(knownWarehouses.map(warehouse => [warehouse.warehouse_name, warehouse.id]));
+                for (const row of rows) {
+                    row.warehouse_id = warehouseIds.get(row.warehouse_name) ?? null;
+                }
+
+                // Последнее сохраненное состояние каждого слота за тот же диапазон дат
+                const minDate = rows.reduce((min, row) => (row.date < min ? row.date : min), rows[0].date);
+                const latestRows: LatestAcceptanceRow[] = await trx
+                    .select('*')
+                    .from(
+                        trx('acceptance_coefficients')
+                            .distinctOn('wb_warehouse_id', 'date', 'box_type_name')
+                            .where('seller_id', this.sellerId)
+                            .where('date', '>=', minDate)
+                            .select(
+                                'wb_warehouse_id',
+                                'box_type_name',
+                                'allow_unload',
+                                knex.raw('date::text as date'),
+                                knex.raw('coefficient::float as coefficient'),
+                                knex.raw('storage_coef::float as storage_coef'),
+                                knex.raw('delivery_coef::float as delivery_coef')
+                            )
+                            .orderBy(['wb_warehouse_id', 'date', 'box_type_name', { column: 'observed_at', order: 'desc' }])
+                            .as('latest')
+                    );
+                const latestBySlot = new Map(latestRows.map(row => [acceptanceSlotKey(row), row]));
+
+                const changedRows = rows.filter(row => {
+                    const latest = latestBySlot.get(acceptanceSlotKey(row));
+                    return !latest
+                        || latest.coefficient !== row.coefficient
+                        || latest.allow_unload !== row.allow_unload
+                        || latest.storage_coef !== row.storage_coef
+                        || latest.delivery_coef !== row.delivery_coef;
+                });
+
+                if (changedRows.length > 0) {
+                    await knex.batchInsert('acceptance_coefficients', changedRows, INSERT_CHUNK_SIZE).transacting(trx);
+                }
+
+                this.logger.info(`Successfully processed: ${rows.length} acceptance coefficients, ${changedRows.length} changed`);
+
+                return { receivedCount: rows.length, changedCount: changedRows.length, quarantinedCount: quarantined.length };
+
+            } catch (error) {
+                this.logger.error("Error during acceptance coefficients processing:", error);
+                throw new Error(`Acceptance coefficients processing failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    }
+
+    private async saveRates<TField extends string>(table: RatesTable<TField>, convert: () => ProcessedData<TField>, effectiveAt?: Date): Promise<ProcessResult> {
         return await knex.transaction(async (trx) => {
             try {
-                const processedData = this.convertWbDataToProcessedData(wbData);
-                
+                const processedData = convert();
+                await this.saveQuarantinedRows(processedData.quarantined, trx);
+
                 // Обрабатываем склады и заполняем их ID
                 await this.processWarehouses(processedData, trx);
-                
-                // Обрабатываем тарифные периоды и тарифы для каждого склада индивидуально
-                const result = await this.processTariffPeriodsAndRates(processedData, trx);
 
-                this.logger.info(`Successfully processed: ${result.tariffPeriodsCount} tariff periods, ${processedData.warehouses.length} warehouses, ${result.boxRatesCount} box rates`);
-                
-                return result;
+                // Обрабатываем тарифные периоды и тарифы всех складов
+                const owners = processedData.warehouses.map(warehouse => ({
+                    id: warehouse.id,
+                    name: `${warehouse.geo_name} - ${warehouse.warehouse_name}`,
+                    label: `warehouse ${warehouse.geo_name} - ${warehouse.warehouse_name}`,
+                }));
+                const result = await this.processTariffPeriodsAndRates(table, owners, processedData.rates, processedData.tariffPeriodEndDate, processedData.quarantined.length, trx, effectiveAt);
+
+                // Активность складов отражает текущее состояние WB, поэтому не меняется при загрузке истории
+                if (!effectiveAt) {
+                    await this.updateWarehousesActivity(processedData.warehouses, trx);
+                }
+
+                this.logger.info(`Successfully processed: ${result.tariffPeriodsCount} tariff periods, ${processedData.warehouses.length} warehouses, ${result.ratesCount} ${table.label} rates`);
 
-        } catch (error) {
+                return { ...result, quarantinedCount: processedData.quarantined.length };
+
+            } catch (error) {
                 this.logger.error("Error during data processing:", error);
                 throw new Error(`Data processing failed: ${error instanceof Error ? error.message : String(error)}`);
             }
         });
     }
 
-    private convertWbDataToProcessedData(wbData: WbWarehouseBoxRatesResponse): ProcessedData {
+    private convertWbAcceptanceCoefficient(wbCoefficient: z.infer<typeof wbAcceptanceCoefficientSchema>, observedAt: Date): ProcessedAcceptanceCoefficient {
         return {
-            warehouses: wbData.warehouseList.map(wbWarehouse => ({
+            seller_id: this.sellerId,
+            warehouse_id: null,
+            wb_warehouse_id: wbCoefficient.warehouseID,
+            warehouse_name: wbCoefficient.warehouseName,
+            is_sorting_center: wbCoefficient.isSortingCenter,
+            date: wbCoefficient.date.split('T')[0],
+            box_type_id: wbCoefficient.boxTypeID ?? null,
+            box_type_name: wbCoefficient.boxTypeName,
+            coefficient: wbCoefficient.coefficient,
+            allow_unload: wbCoefficient.allowUnload,
+            storage_coef: wbCoefficient.storageCoef ?? null,
+            delivery_coef: wbCoefficient.deliveryCoef ?? null,
+            observed_at: observedAt,
+        };
+    }
+
+    private convertWbDataToProcessedData(wbData: WbWarehouseBoxRatesResponse): ProcessedData<BoxRateField> {
+        const response = wbBoxRatesResponseSchema.parse(wbData);
+        const { rows, quarantined } = this.validateRows("box", wbBoxRateSchema, response.warehouseList);
+
+        return {
+            warehouses: rows.map(wbWarehouse => ({
                 geo_name: wbWarehouse.geoName,
                 warehouse_name: wbWarehouse.warehouseName,
             })),
-            boxRates: wbData.warehouseList.map(wbRate => ({
-                box_delivery_base: Number(wbRate.boxDeliveryBase.replace(',', '.')),
-                box_delivery_coef: Number(wbRate.boxDeliveryCoefExpr.replace(',', '.')),
-                box_delivery_liter: Number(wbRate.boxDeliveryLiter.replace(',', '.')),
-                box_delivery_marketplace_base: Number(wbRate.boxDeliveryMarketplaceBase.replace(',', '.')),
-                box_delivery_marketplace_coef: Number(wbRate.boxDeliveryMarketplaceCoefExpr.replace(',', '.')),
-                box_delivery_marketplace_liter: Number(wbRate.boxDeliveryMarketplaceLiter.replace(',', '.')),
-                box_storage_base: Number(wbRate.boxStorageBase.replace(',', '.')),
-                box_storage_coef: Number(wbRate.boxStorageCoefExpr.replace(',', '.')),
-                box_storage_liter: Number(wbRate.boxStorageLiter.replace(',', '.')),
+            rates: rows.map(wbRate => ({
+                box_delivery_base: wbRate.boxDeliveryBase,
+                box_delivery_coef: wbRate.boxDeliveryCoefExpr,
+                box_delivery_liter: wbRate.boxDeliveryLiter,
+                box_delivery_marketplace_base: wbRate.boxDeliveryMarketplaceBase,
+                box_delivery_marketplace_coef: wbRate.boxDeliveryMarketplaceCoefExpr,
+                box_delivery_marketplace_liter: wbRate.boxDeliveryMarketplaceLiter,
+                box_storage_base: wbRate.boxStorageBase,
+                box_storage_coef: wbRate.boxStorageCoefExpr,
+                box_storage_liter: wbRate.boxStorageLiter,
             })),
-            tariffPeriodEndDate: new Date(wbData.dtTillMax)
+            tariffPeriodEndDate: new Date(response.dtTillMax),
+            quarantined
         };
     }
 
-    private async processTariffPeriodsAndRates(processedData: ProcessedData, trx: any): Promise<ProcessResult> {
-        this.logger.info(`Processing tariff periods and rates for ${processedData.warehouses.length} warehouses`);
-        
-        const now = new Date();
-        
-        let tariffPeriodsCount = 0;
-        let boxRatesCount = 0;
+    private convertWbPalletDataToProcessedData(wbData: WbWarehousePalletRatesResponse): ProcessedData<PalletRateField> {
+        const response = wbPalletRatesResponseSchema.parse(wbData);
+        const { rows, quarantined } = this.validateRows("pallet", wbPalletRateSchema, response.warehouseList);
+
+        return {
+            warehouses: rows.map(wbWarehouse => ({
+                geo_name: wbWarehouse.geoName,
+                warehouse_name: wbWarehouse.warehouseName,
+            })),
+            rates: rows.map(wbRate => ({
+                pallet_delivery_base: wbRate.palletDeliveryValueBase,
+                pallet_delivery_coef: wbRate.palletDeliveryExpr,
+                pallet_delivery_liter: wbRate.palletDeliveryValueLiter,
+                pallet_storage_coef: wbRate.palletStorageExpr,
+                pallet_storage_value: wbRate.palletStorageValueExpr,
+            })),
+            tariffPeriodEndDate: new Date(response.dtTillMax),
+            quarantined
+        };
+    }
+
+    private convertWbReturnDataToProcessedData(wbData: WbWarehouseReturnRatesResponse): ProcessedData<ReturnRateField> {
+        const response = wbReturnRatesResponseSchema.parse(wbData);
+        const { rows, quarantined } = this.validateRows("return", wbReturnRateSchema, response.warehouseList);
 
-        for (let i = 0; i < processedData.warehouses.length; i++) {
-            const warehouse = processedData.warehouses[i];
-            const boxRate = processedData.boxRates[i];
+        return {
+            // В тарифах на возврат нет округа - склады сопоставляются по названию
+            warehouses: rows.map(wbWarehouse => ({
+                warehouse_name: wbWarehouse.warehouseName,
+            })),
+            rates: rows.map(wbRate => ({
+                return_kgt_office_base: wbRate.deliveryDumpKgtOfficeBase,
+                return_kgt_office_liter: wbRate.deliveryDumpKgtOfficeLiter,
+                return_kgt_return: wbRate.deliveryDumpKgtReturnExpr,
+                return_srg_office: wbRate.deliveryDumpSrgOfficeExpr,
+                return_srg_return: wbRate.deliveryDumpSrgReturnExpr,
+                return_sup_courier_base: wbRate.deliveryDumpSupCourierBase,
+                return_sup_courier_liter: wbRate.deliveryDumpSupCourierLiter,
+                return_sup_office_base: wbRate.deliveryDumpSupOfficeBase,
+                return_sup_office_liter: wbRate.deliveryDumpSupOfficeLiter,
+                return_sup_return: wbRate.deliveryDumpSupReturnExpr,
+            })),
+            // WB не сообщает срок действия тарифов на возврат - период остается открытым
+            tariffPeriodEndDate: null,
+            quarantined
+        };
+    }
+
+    private convertWbCommissionDataToProcessedData(wbData: WbSubjectCommissionsResponse): ProcessedCommissionData {
+        const response = wbSubjectCommissionsResponseSchema.parse(wbData);
+        const { rows, quarantined } = this.validateRows("commission", wbSubjectCommissionSchema, response.report);
+
+        return {
+            subjects: rows.map(wbSubject => ({
+                wb_subject_id: wbSubject.subjectID,
+                subject_name: wbSubject.subjectName,
+                wb_parent_id: wbSubject.parentID,
+                parent_name: wbSubject.parentName,
+            })),
+            rates: rows.map(wbRate => ({
+                commission_fbo: wbRate.paidStorageKgvp,
+                commission_fbs: wbRate.kgvpMarketplace,
+                commission_dbs: wbRate.kgvpSupplier,
+                commission_edbs: wbRate.kgvpSupplierExpress,
+                commission_pickup: wbRate.kgvpPickup,
+                commission_booking: wbRate.kgvpBooking,
+            })),
+            // Комиссии действуют до следующего изменения - период остается открытым
+            tariffPeriodEndDate: null,
+            quarantined
+        };
+    }
+
+    /**
+     * Проверка строк ответа WB: некорректные строки откладываются в карантин вместе с причиной
+     */
+    private validateRows<TRow>(source: string, schema: z.ZodType<TRow, z.ZodTypeDef, unknown>, rawRows: unknown[]): { rows: TRow[]; quarantined: QuarantinedRow[] } {
+        const rows: TRow[] = [];
+        const quarantined: QuarantinedRow[] = [];
+
+        for (const raw of rawRows) {
+            const result = schema.safeParse(raw);
+            if (result.success) {
+                rows.push(result.data);
+            } else {
+                const reason = result.error.issues.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ");
+                quarantined.push({ source, raw, reason });
+            }
+        }
+
+        if (quarantined.length > 0) {
+            this.logger.warn(`${quarantined.length} of ${rawRows.length} ${source} rows failed validation and were quarantined`);
+        }
+
+        return { rows, quarantined };
+    }
+
+    private async saveQuarantinedRows(quarantined: QuarantinedRow[], trx: Knex.Transaction): Promise<void> {
+        if (quarantined.length === 0) return;
+
+        await trx('wb_quarantine').insert(quarantined.map(row => ({
+            seller_id: this.sellerId,
+            source: row.source,
+            raw: JSON.stringify(row.raw),
+            reason: row.reason,
+        })));
+    }
 
-            if (!warehouse.id) {
-                this.logger.warn(`Missing warehouse ID at index ${i}`);
+    /**
+     * Версионирование тарифов: для каждого владельца тарифа (склада или предмета) продлевает текущий период,
+     * если тарифы не изменились, или закрывает его и открывает новый. Текущие периоды владельцев, которых нет
+     * в ответе WB, закрываются (см. selectMissingOwnerRates). Текущие тарифы кабинета загружаются одним запросом,
+     * изменения считаются в памяти и записываются несколькими многострочными запросами.
+     * При загрузке истории (effectiveAt) периоды вставляются перед уже сохраненными: новый период закрывается
+     * началом следующего периода владельца, продленные периоды и владельцы, пропавшие из ответа, не меняются
+     */
+    private async processTariffPeriodsAndRates<TField extends string>(
+        table: RatesTable<TField>,
+        owners: RateOwner[],
+        rates: ProcessedRate<TField>[],
+        tariffPeriodEndDate: Date | null,
+        quarantinedCount: number,
+        trx: Knex.Transaction,
+        effectiveAt?: Date
+    ): Promise<ProcessResult> {
+        this.logger.info(`Processing tariff periods and ${table.label} rates for ${owners.length} owners`);
+
+        const now = effectiveAt ?? new Date();
+
+        // Если владелец встречается в ответе несколько раз, сохраняются тарифы из последней строки
+        const ownerRates = new Map<string, { owner: RateOwner; rate: ProcessedRate<TField> }>();
+        for (let i = 0; i < owners.length; i++) {
+            const owner = owners[i];
+
+            if (!owner.id) {
+                this.logger.warn(`Missing ${table.keyColumn} at index ${i}`);
                 continue;
             }
+            if (ownerRates.has(owner.id)) {
+                this.logger.warn(`Duplicate ${owner.label} at index ${i} - the last ${table.label} rates are used`);
+            }
+            ownerRates.set(owner.id, { owner, rate: rates[i] });
+        }
 
-            // Находим текущий активный период для этого склада
-            const currentPeriod = await this.getCurrentPeriodForWarehouse(warehouse.id, now, trx);
-            
-            if (currentPeriod) {
-                // Проверяем, изменились ли тарифы для этого склада
-                const ratesMatch = await this.checkRatesMatchForWarehouse(currentPeriod.id, warehouse.id, boxRate, trx);
-                
-                if (ratesMatch) {
-                    // Тарифы не изменились - продлеваем текущий период
-                    await trx('tariff_periods')
-                        .where('id', currentPeriod.id)
-                        .update({ end_date: processedData.tariffPeriodEndDate });
-                    
-                    // Связываем тариф с существующим периодом
-                    boxRate.tariff_period_id = currentPeriod.id;
-                    boxRate.warehouse_id = warehouse.id;
-                    
-                    this.logger.info(`Extended period ${currentPeriod.id} for warehouse ${warehouse.geo_name} - ${warehouse.warehouse_name} until ${processedData.tariffPeriodEndDate.toISOString()} - no new rates needed`);
-                } else {
-                    // Тарифы изменились - закрываем старый период текущим временем и создаем новый
-                    await trx('tariff_periods')
-                        .where('id', currentPeriod.id)
-                        .update({ end_date: now });
-                    
-                    const [newPeriod] = await trx('tariff_periods')
-                        .insert({
-                            start_date: now,
-                            end_date: processedData.tariffPeriodEndDate
-                        })
-                        .returning('*');
-                    
-                    // Связываем тариф с новым периодом
-                    boxRate.tariff_period_id = newPeriod.id;
-                    boxRate.warehouse_id = warehouse.id;
-                    
-                    tariffPeriodsCount++;
-                    boxRatesCount++;
-                    
-                    this.logger.info(`Closed period ${currentPeriod.id} at ${now.toISOString()} and created new period ${newPeriod.id} from ${now.toISOString()} for warehouse ${warehouse.geo_name} - ${warehouse.warehouse_name} - new rates needed`);
-                }
+        const currentRates = await this.getCurrentRates(table, now, trx);
+        const nextPeriodStarts = effectiveAt ? await this.getNextPeriodStarts(table, now, trx) : new Map<string, Date>();
+
+        const extendedPeriodIds: string[] = [];
+        const closedPeriodIds: string[] = [];
+        const missingPeriodIds: string[] = [];
+        const newPeriods: { id: string; start_date: Date; end_date: Date | null }[] = [];
+        const rateRows: Record<string, unknown>[] = [];
+        const changes: RateChange[] = [];
+
+        for (const [ownerId, { owner, rate }] of ownerRates) {
+            const ownerLogger = this.logger.withContext({ [table.keyColumn]: ownerId });
+            const currentRate = currentRates.get(ownerId);
+            // Исторический период заканчивается там, где начинается следующий сохраненный период
+            // (или там же, где заканчивался разделяемый им период)
+            const periodEndDate = effectiveAt
+                ? nextPeriodStarts.get(ownerId) ?? (currentRate ? currentRate.end_date : tariffPeriodEndDate)
+                : tariffPeriodEndDate;
+
+            let tariffPeriodId: string;
+            const decision = detectRateChange(table, currentRate, rate);
+            if (currentRate && decision.kind === "unchanged") {
+                // Тарифы не изменились - продлеваем текущий период
+                tariffPeriodId = currentRate.tariff_period_id;
+                extendedPeriodIds.push(tariffPeriodId);
+
+                ownerLogger.debug(`Extended period ${tariffPeriodId} for ${owner.label} until ${tariffPeriodEndDate?.toISOString() ?? 'further notice'} - no new ${table.label} rates needed`);
+            } else if (currentRate && decision.kind === "changed") {
+                // Тарифы изменились - закрываем старый период текущим временем и создаем новый
+                tariffPeriodId = randomUUID();
+                closedPeriodIds.push(currentRate.tariff_period_id);
+                newPeriods.push({ id: tariffPeriodId, start_date: now, end_date: periodEndDate });
+                changes.push({ changed_at: now, rates_label: table.label, owner_id: ownerId, owner_name: owner.name, fields: decision.fields });
+
+                const changedFields = decision.fields.map(change => `${change.field} ${change.old_value} -> ${change.new_value}`).join(', ');
+                ownerLogger.info(`Closed period ${currentRate.tariff_period_id} at ${now.toISOString()} and created new period ${tariffPeriodId} from ${now.toISOString()} for ${owner.label} - ${table.label} rates changed: ${changedFields}`);
             } else {
-                // Нет текущего периода для этого склада - создаем новый
-                const [newPeriod] = await trx('tariff_periods')
-                    .insert({
-                        start_date: now,
-                        end_date: processedData.tariffPeriodEndDate
-                    })
-                    .returning('*');
-                
-                // Связываем тариф с новым периодом
-                boxRate.tariff_period_id = newPeriod.id;
-                boxRate.warehouse_id = warehouse.id;
-                
-                tariffPeriodsCount++;
-                boxRatesCount++;
-                
-                this.logger.info(`Created new period ${newPeriod.id} from ${now.toISOString()} for warehouse ${warehouse.geo_name} - ${warehouse.warehouse_name} - new rates needed`);
+                // Нет текущего периода - создаем новый
+                tariffPeriodId = randomUUID();
+                newPeriods.push({ id: tariffPeriodId, start_date: now, end_date: periodEndDate });
+
+                ownerLogger.info(`Created new period ${tariffPeriodId} from ${now.toISOString()} for ${owner.label} - new ${table.label} rates needed`);
             }
+
+            const rateRow: Record<string, unknown> = {
+                seller_id: this.sellerId,
+                [table.keyColumn]: ownerId,
+                tariff_period_id: tariffPeriodId,
+            };
+            for (const field of table.fields) {
+                rateRow[field] = rate[field];
+            }
+            rateRows.push(rateRow);
+        }
+
+        // Владелец пропал из ответа WB - его тарифы больше не действуют
+        const missingRates = selectMissingOwnerRates(currentRates.values(), new Set(ownerRates.keys()), { quarantinedCount, backfill: !!effectiveAt });
+        if (missingRates.keptReason === "backfill") {
+            this.logger.info(`${missingRates.missing.length} ${table.keyColumn} with ${table.label} rates are missing from the response for ${now.toISOString()} - periods are kept when loading history`);
+        } else if (missingRates.keptReason === "quarantined") {
+            this.logger.warn(`${missingRates.missing.length} ${table.keyColumn} with current ${table.label} rates are missing from the response, but some rows were quarantined - periods are kept`);
+        } else if (missingRates.keptReason === "empty_response") {
+            this.logger.warn(`Response contains no ${table.label} rates - periods of ${missingRates.missing.length} ${table.keyColumn} are kept`);
+        } else {
+            for (const missingRate of missingRates.close) {
+                missingPeriodIds.push(missingRate.tariff_period_id);
+                this.logger
+                    .withContext({ [table.keyColumn]: missingRate.owner_id })
+                    .info(`Closed period ${missingRate.tariff_period_id} at ${now.toISOString()} - ${table.keyColumn} ${missingRate.owner_id} is missing from the ${table.label} rates response`);
+            }
+        }
+
+        if (extendedPeriodIds.length > 0 && !effectiveAt) {
+            await trx('tariff_periods').whereIn('id', extendedPeriodIds).update({ end_date: tariffPeriodEndDate });
+        }
+        if (closedPeriodIds.length > 0 || missingPeriodIds.length > 0) {
+            await trx('tariff_periods').whereIn('id', [...closedPeriodIds, ...missingPeriodIds]).update({ end_date: now });
+        }
+        for (const periods of chunk(newPeriods, INSERT_CHUNK_SIZE)) {
+            await trx('tariff_periods').insert(periods);
         }
 
         // Сохраняем все тарифы (как новые, так и обновленные)
-        await this.saveBoxRates(processedData, trx);
+        await this.saveRatesRows(table, rateRows, trx);
+
+        // События изменений сохраняются в одной транзакции с тарифами: лист history дописывается из них,
+        // поэтому изменения не теряются, если публикация не дошла до конца. История за прошлые даты на лист не пишется
+        if (!effectiveAt) {
+            await this.saveRateChangeEvents(changes, trx);
+        }
+
+        this.logger.info(`${table.label} rates: ${extendedPeriodIds.length} periods extended, ${closedPeriodIds.length} closed, ${newPeriods.length} created, ${missingPeriodIds.length} closed as missing from the response`);
 
         return {
-            tariffPeriodsCount,
-            warehousesCount: processedData.warehouses.length,
-            boxRatesCount
+            tariffPeriodsCount: newPeriods.length,
+            closedPeriodsCount: closedPeriodIds.length,
+            missingOwnersCount: missingPeriodIds.length,
+            ownersCount: owners.length,
+            ratesCount: newPeriods.length,
+            quarantinedCount: 0,
+            changes
         };
     }
 
-    private async getCurrentPeriodForWarehouse(warehouseId: string, now: Date, trx: any): Promise<any> {
-        // Находим текущий активный период для конкретного склада
-        const currentRate = await trx('box_rates')
-            .join('tariff_periods', 'box_rates.tariff_period_id', 'tariff_periods.id')
-            .where('box_rates.warehouse_id', warehouseId)
+    /**
+     * Текущие тарифы кабинета (действующие в момент now) вместе с ID их периода, по владельцу
+     */
+    private async getCurrentRates<TField extends string>(table: RatesTable<TField>, now: Date, trx: Knex.Transaction): Promise<Map<string, CurrentRate<TField>>> {
+        const rows: CurrentRate<TField>[] = await trx(table.tableName)
+            .join('tariff_periods', `${table.tableName}.tariff_period_id`, 'tariff_periods.id')
+            .distinctOn(`${table.tableName}.${table.keyColumn}`)
+            .where(`${table.tableName}.seller_id`, this.sellerId)
             .where('tariff_periods.start_date', '<=', now)
-            .where(function(this: any) {
-                this.whereNull('tariff_periods.end_date').orWhere('tariff_periods.end_date', '>=', now);
-            })
-            .select('tariff_periods.*')
-            .first();
+            .where(tariffPeriodEndsAfter(now))
+            .select(
+                `${table.tableName}.${table.keyColumn} as owner_id`,
+                `${table.tableName}.tariff_period_id`,
+                'tariff_periods.end_date',
+                ...table.fields.map(field => knex.raw(`${table.tableName}.${field}::float as ${field}`))
+            )
+            .orderBy([`${table.tableName}.${table.keyColumn}`, { column: 'tariff_periods.start_date', order: 'desc' }]);
 
-        return currentRate;
+        return new Map(rows.map(row => [row.owner_id, row]));
     }
 
-    private async checkRatesMatchForWarehouse(periodId: string, warehouseId: string, newRate: ProcessedBoxRate, trx: any): Promise<boolean> {
-        this.logger.info(`Checking rates match for period ${periodId} and warehouse ${warehouseId}`);
-    
-        const existingRate = await trx('box_rates')
-            .where('tariff_period_id', periodId)
-            .where('warehouse_id', warehouseId)
-            .select(
-                knex.raw('box_delivery_base::float as box_delivery_base'),
-                knex.raw('box_delivery_coef::float as box_delivery_coef'),
-                knex.raw('box_delivery_liter::float as box_delivery_liter'),
-                knex.raw('box_delivery_marketplace_base::float as box_delivery_marketplace_base'),
-                knex.raw('box_delivery_marketplace_coef::float as box_delivery_marketplace_coef'),
-                knex.raw('box_delivery_marketplace_liter::float as box_delivery_marketplace_liter'),
-                knex.raw('box_storage_base::float as box_storage_base'),
-                knex.raw('box_storage_coef::float as box_storage_coef'),
-                knex.raw('box_storage_liter::float as box_storage_liter')
-            )
-            .first();
+    /**
+     * Начало ближайшего периода тарифов кабинета после момента at, по владельцу
+     */
+    private async getNextPeriodStarts<TField extends string>(table: RatesTable<TField>, at: Date, trx: Knex.Transaction): Promise<Map<string, Date>> {
+        const rows: { owner_id: string; start_date: Date }[] = await trx(table.tableName)
+            .join('tariff_periods', `${table.tableName}.tariff_period_id`, 'tariff_periods.id')
+            .where(`${table.tableName}.seller_id`, this.sellerId)
+            .where('tariff_periods.start_date', '>', at)
+            .groupBy(`${table.tableName}.${table.keyColumn}`)
+            .select(`${table.tableName}.${table.keyColumn} as owner_id`)
+            .min('tariff_periods.start_date as start_date');
+
+        return new Map(rows.map(row => [row.owner_id, row.start_date]));
+    }
 
-        if (!existingRate) {
-            this.logger.info(`No existing rate found for period ${periodId} and warehouse ${warehouseId} - rates don't match`);
-            return false;
-        }
+    /**
+     * Заполнение ID складов: известные склады загружаются одним запросом, новые создаются одним многострочным запросом
+     */
+    private async processWarehouses(processedData: ProcessedData<string>, trx: Knex.Transaction): Promise<void> {
+        this.logger.info(`Processing ${processedData.warehouses.length} warehouses`);
+
+        // Без округа склад можно только найти по названию среди уже известных
+        const warehousesWithoutGeo = processedData.warehouses.filter(warehouse => warehouse.geo_name === undefined);
+        if (warehousesWithoutGeo.length > 0) {
+            const knownWarehouses: { id: string; geo_name: string; warehouse_name: string }[] = await trx('warehouses')
+                .whereIn('warehouse_name', [...new Set(warehousesWithoutGeo.map(warehouse => warehouse.warehouse_name))])
+                .select('id', 'geo_name', 'warehouse_name');
 
-        // Сравниваем все числовые поля (с точностью до 2 знаков после запятой)
-        const fieldsToCompare = [
-            { processed: newRate.box_delivery_base, db: existingRate.box_delivery_base, name: 'box_delivery_base' },
-            { processed: newRate.box_delivery_coef, db: existingRate.box_delivery_coef, name: 'box_delivery_coef' },
-            { processed: newRate.box_delivery_liter, db: existingRate.box_delivery_liter, name: 'box_delivery_liter' },
-            { processed: newRate.box_delivery_marketplace_base, db: existingRate.box_delivery_marketplace_base, name: 'box_delivery_marketplace_base' },
-            { processed: newRate.box_delivery_marketplace_coef, db: existingRate.box_delivery_marketplace_coef, name: 'box_delivery_marketplace_coef' },
-            { processed: newRate.box_delivery_marketplace_liter, db: existingRate.box_delivery_marketplace_liter, name: 'box_delivery_marketplace_liter' },
-            { processed: newRate.box_storage_base, db: existingRate.box_storage_base, name: 'box_storage_base' },
-            { processed: newRate.box_storage_coef, db: existingRate.box_storage_coef, name: 'box_storage_coef' },
-            { processed: newRate.box_storage_liter, db: existingRate.box_storage_liter, name: 'box_storage_liter' }
-        ];
-
-        for (const field of fieldsToCompare) {
-            if (Math.abs(field.processed - field.db) > 0.01) { // Точность до 2 знаков
-                this.logger.info(`Rate mismatch for warehouse ${warehouseId}: ${field.name} processed=${field.processed}, DB=${field.db} - rates don't match`);
-                return false;
+            const warehousesByName = new Map<string, { id: string; geo_name: string }>();
+            for (const knownWarehouse of knownWarehouses) {
+                if (!warehousesByName.has(knownWarehouse.warehouse_name)) warehousesByName.set(knownWarehouse.warehouse_name, knownWarehouse);
+            }
+
+            for (const warehouse of warehousesWithoutGeo) {
+                const knownWarehouse = warehousesByName.get(warehouse.warehouse_name);
+                if (!knownWarehouse) {
+                    this.logger.warn(`Unknown warehouse without geo name: ${warehouse.warehouse_name} - skipped`);
+                    continue;
+                }
+
+                warehouse.id = knownWarehouse.id;
+                warehouse.geo_name = knownWarehouse.geo_name;
             }
         }
 
-        this.logger.info(`Rates match for period ${periodId} and warehouse ${warehouseId}`);
-        return true;
-    }
+        const warehousesWithGeo = processedData.warehouses.filter(warehouse => warehouse.geo_name !== undefined && !warehouse.id);
+        if (warehousesWithGeo.length === 0) return;
 
-    private async processWarehouses(processedData: ProcessedData, trx: any): Promise<void> {
-        this.logger.info(`Processing ${processedData.warehouses.length} warehouses`);
+        const uniqueWarehouses = new Map(warehousesWithGeo.map(warehouse => [warehouseKey(warehouse), { geo_name: warehouse.geo_name!, warehouse_name: warehouse.warehouse_name }]));
+
+        // Проверяем существование складов
+        const existingWarehouses: { id: string; geo_name: string; warehouse_name: string }[] = await trx('warehouses')
+            .whereIn(['geo_name', 'warehouse_name'], [...uniqueWarehouses.values()].map(warehouse => [warehouse.geo_name, warehouse.warehouse_name]))
+            .select('id', 'geo_name', 'warehouse_name');
+        const warehouseIds = new Map(existingWarehouses.map(warehouse => [warehouseKey(warehouse), warehouse.id]));
+
+        // Создаем новые склады
+        const newWarehouses = [...uniqueWarehouses.entries()].filter(([key]) => !warehouseIds.has(key)).map(([, warehouse]) => warehouse);
+        for (const warehouses of chunk(newWarehouses, INSERT_CHUNK_SIZE)) {
+            const createdWarehouses: { id: string; geo_name: string; warehouse_name: string }[] = await trx('warehouses')
+                .insert(warehouses)
+                .returning(['id', 'geo_name', 'warehouse_name']);
 
-        for (let i = 0; i < processedData.warehouses.length; i++) {
-            const warehouse = processedData.warehouses[i];
-            
-            // Проверяем существование склада
-            let existingWarehouse = await trx('warehouses')
-                .where('geo_name', warehouse.geo_name)
-                .where('warehouse_name', warehouse.warehouse_name)
-                .first();
-
-            if (!existingWarehouse) {
-                // Создаем новый склад
-                const [newWarehouse] = await trx('warehouses')
-                    .insert({
-                        geo_name: warehouse.geo_name,
-                        warehouse_name: warehouse.warehouse_name
-                    })
-                    .returning('*');
-                
-                existingWarehouse = newWarehouse;
-                this.logger.info(`Created new warehouse: ${warehouse.geo_name} - ${warehouse.warehouse_name}`);
+            for (const createdWarehouse of createdWarehouses) {
+                warehouseIds.set(warehouseKey(createdWarehouse), createdWarehouse.id);
+                this.logger.info(`Created new warehouse: ${createdWarehouse.geo_name} - ${createdWarehouse.warehouse_name}`);
             }
+        }
 
-            // Заполняем ID в processedData
-            warehouse.id = existingWarehouse.id;
+        // Заполняем ID в processedData
+        for (const warehouse of warehousesWithGeo) {
+            warehouse.id = warehouseIds.get(warehouseKey(warehouse));
         }
     }
 
-    private async saveBoxRates(processedData: ProcessedData, trx: any): Promise<void> {
-        this.logger.info(`Saving box rates for ${processedData.boxRates.length} warehouses`);
+    /**
+     * Склады из ответа WB отмечаются активными со временем последнего появления; склады, на которых ни у одного
+     * кабинета не осталось действующих тарифов (коробов, монопаллет или возврата), - неактивными
+     */
+    private async updateWarehousesActivity(warehouses: ProcessedWarehouse[], trx: Knex.Transaction): Promise<void> {
+        const now = new Date();
+        const seenIds = [...new Set(warehouses.flatMap(warehouse => (warehouse.id ? [warehouse.id] : [])))];
+
+        if (seenIds.length > 0) {
+            const reactivated: { geo_name: string; warehouse_name: string }[] = await trx('warehouses')
+                .whereIn('id', seenIds)
+                .where('is_active', false)
+                .update({ is_active: true })
+                .returning(['geo_name', 'warehouse_name']);
+            for (const warehouse of reactivated) {
+                this.logger.info(`Warehouse is back in the WB response and active again: ${warehouse.geo_name} - ${warehouse.warehouse_name}`);
+            }
 
-        for (let i = 0; i < processedData.boxRates.length; i++) {
-            const boxRate = processedData.boxRates[i];
+            await trx('warehouses').whereIn('id', seenIds).update({ last_seen_at: now });
+        }
 
-            if (!boxRate.warehouse_id || !boxRate.tariff_period_id) {
-                this.logger.warn(`Missing IDs for warehouse or tariff period at index ${i}`);
-                continue;
+        const deactivationQuery = trx('warehouses').where('is_active', true);
+        for (const ratesTable of WAREHOUSE_RATES_TABLES) {
+            deactivationQuery.whereNotExists(function(this: Knex.QueryBuilder) {
+                this.select(knex.raw('1'))
+                    .from(ratesTable.tableName)
+                    .join('tariff_periods', `${ratesTable.tableName}.tariff_period_id`, 'tariff_periods.id')
+                    .whereRaw(`${ratesTable.tableName}.warehouse_id = warehouses.id`)
+                    .where(tariffPeriodEndsAfter(now));
+            });
+        }
+        const deactivated: { geo_name: string; warehouse_name: string }[] = await deactivationQuery
+            .update({ is_active: false })
+            .returning(['geo_name', 'warehouse_name']);
+        for (const warehouse of deactivated) {
+            this.logger.info(`Warehouse has no current rates and is marked inactive: ${warehouse.geo_name} - ${warehouse.warehouse_name}`);
+        }
+    }
+
+    /**
+     * Сохранение предметов и заполнение их ID многострочными upsert-запросами
+     */
+    private async processSubjects(processedData: ProcessedCommissionData, trx: Knex.Transaction): Promise<void> {
+        this.logger.info(`Processing ${processedData.subjects.length} subjects`);
+
+        // Один предмет не может обновляться дважды в одном запросе - остается последняя строка
+        const uniqueSubjects = new Map(processedData.subjects.map(subject => [subject.wb_subject_id, subject]));
+
+        const subjectIds = new Map<number, string>();
+        for (const subjects of chunk([...uniqueSubjects.values()], INSERT_CHUNK_SIZE)) {
+            // Названия предметов у WB могут меняться - обновляем их по ID предмета
+            const savedSubjects: { id: string; wb_subject_id: number }[] = await trx('subjects')
+                .insert(subjects.map(subject => ({
+                    wb_subject_id: subject.wb_subject_id,
+                    subject_name: subject.subject_name,
+                    wb_parent_id: subject.wb_parent_id,
+                    parent_name: subject.parent_name
+                })))
+                .onConflict(['wb_subject_id'])
+                .merge(['subject_name', 'wb_parent_id', 'parent_name'])
+                .returning(['id', 'wb_subject_id']);
+
+            for (const savedSubject of savedSubjects) {
+                subjectIds.set(savedSubject.wb_subject_id, savedSubject.id);
             }
+        }
 
-            const boxRateData = {
-                warehouse_id: boxRate.warehouse_id,
-                tariff_period_id: boxRate.tariff_period_id,
-                box_delivery_base: boxRate.box_delivery_base,
-                box_delivery_coef: boxRate.box_delivery_coef,
-                box_delivery_liter: boxRate.box_delivery_liter,
-                box_delivery_marketplace_base: boxRate.box_delivery_marketplace_base,
-                box_delivery_marketplace_coef: boxRate.box_delivery_marketplace_coef,
-                box_delivery_marketplace_liter: boxRate.box_delivery_marketplace_liter,
-                box_storage_base: boxRate.box_storage_base,
-                box_storage_coef: boxRate.box_storage_coef,
-                box_storage_liter: boxRate.box_storage_liter
-            };
+        // Заполняем ID в processedData
+        for (const subject of processedData.subjects) {
+            subject.id = subjectIds.get(subject.wb_subject_id);
+        }
+    }
+
+    private async saveRateChangeEvents(changes: RateChange[], trx: Knex.Transaction): Promise<void> {
+        const rows = changes.map(change => ({
+            seller_id: this.sellerId,
+            changed_at: change.changed_at,
+            rates_label: change.rates_label,
+            owner_id: change.owner_id,
+            owner_name: change.owner_name,
+            fields: JSON.stringify(change.fields),
+        }));
+
+        for (const events of chunk(rows, INSERT_CHUNK_SIZE)) {
+            await trx('rate_change_events').insert(events);
+        }
+    }
 
-            const [savedBoxRate] = await trx('box_rates')
-                .insert(boxRateData)
-                .onConflict(['warehouse_id', 'tariff_period_id'])
-                .merge()
-                .returning('*');
+    private async saveRatesRows<TField extends string>(table: RatesTable<TField>, rateRows: Record<string, unknown>[], trx: Knex.Transaction): Promise<void> {
+        this.logger.info(`Saving ${rateRows.length} ${table.label} rates`);
 
-            // Заполняем ID в processedData
-            boxRate.id = savedBoxRate.id;
+        for (const rows of chunk(rateRows, INSERT_CHUNK_SIZE)) {
+            await trx(table.tableName)
+                .insert(rows)
+                .onConflict([table.keyColumn, 'tariff_period_id'])
+                .merge();
         }
     }
 }
 
+/**
+ * Изменение поля в процентах (null, если старое или новое значение недоступно или старое равно нулю)
+ */
+export function changePercent(change: RateFieldChange): number | null {
+    if (change.old_value === null || change.new_value === null || change.old_value === 0) return null;
+    return (change.new_value - change.old_value) / Math.abs(change.old_value) * 100;
+}
+
+function warehouseKey(warehouse: { geo_name?: string; warehouse_name: string }): string {
+    return `${warehouse.geo_name}|${warehouse.warehouse_name}`;
+}
+
+function chunk<T>(rows: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < rows.length; i += size) {
+        chunks.push(rows.slice(i, i + size));
+    }
+    return chunks;
+}
+
+function acceptanceSlotKey(row: { wb_warehouse_id: number; date: string; box_type_name: string }): string {
+    return `${row.wb_warehouse_id}|${row.date}|${row.box_type_name}`;
+}
+
 /**
  * Результат обработки данных
  */
 export interface ProcessResult {
     tariffPeriodsCount: number;
-    warehousesCount: number;
-    boxRatesCount: number;
+    /** Периоды, закрытые из-за изменения тарифов */
+    closedPeriodsCount: number;
+    /** Владельцы, пропавшие из ответа WB: их текущие периоды закрыты */
+    missingOwnersCount: number;
+    ownersCount: number;
+    ratesCount: number;
+    /** Строки, не прошедшие проверку и отложенные в wb_quarantine */
+    quarantinedCount: number;
+    changes: RateChange[];
+}
+
+/**
+ * Изменение тарифов владельца: старый период закрыт, открыт новый
+ */
+export interface RateChange {
+    changed_at: Date;
+    rates_label: string;
+    owner_id: string;
+    owner_name: string;
+    fields: RateFieldChange[];
+}
+
+export interface RateFieldChange {
+    field: string;
+    old_value: number | null;
+    new_value: number | null;
+}
+
+export interface AcceptanceProcessResult {
+    receivedCount: number;
+    changedCount: number;
+    quarantinedCount: number;
 }
 
 /**
  * Типы обработанных данных
  */
-export interface ProcessedData {
+export interface ProcessedData<TField extends string = BoxRateField> {
     warehouses: ProcessedWarehouse[];
-    boxRates: ProcessedBoxRate[];
-    tariffPeriodEndDate: Date;
+    rates: ProcessedRate<TField>[];
+    tariffPeriodEndDate: Date | null;
+    quarantined: QuarantinedRow[];
+}
+
+export interface QuarantinedRow {
+    source: string;
+    raw: unknown;
+    reason: string;
 }
 
 export interface ProcessedWarehouse {
     id?: string;
-    geo_name: string;
+    geo_name?: string;
     warehouse_name: string;
 }
 
-export interface ProcessedBoxRate {
+export interface ProcessedCommissionData {
+    subjects: ProcessedSubject[];
+    rates: ProcessedRate<CommissionRateField>[];
+    tariffPeriodEndDate: Date | null;
+    quarantined: QuarantinedRow[];
+}
+
+export interface ProcessedSubject {
     id?: string;
-    warehouse_id?: string;
-    tariff_period_id?: string;
-
-    box_delivery_base: number;
-    box_delivery_coef: number;
-    box_delivery_liter: number;
-    box_delivery_marketplace_base: number;
-    box_delivery_marketplace_coef: number;
-    box_delivery_marketplace_liter: number;
-    box_storage_base: number;
-    box_storage_coef: number;
-    box_storage_liter: number;
-}
\ No newline at end of file
+    wb_subject_id: number;
+    subject_name: string;
+    wb_parent_id: number;
+    parent_name: string;
+}
+
+/**
+ * Владелец версионируемых тарифов (склад или предмет)
+ */
+export interface RateOwner {
+    id?: string;
+    name: string;
+    label: string;
+}
+
+export type ProcessedRate<TField extends string = BoxRateField> = Record<TField, number | null>;
+
+export type ProcessedBoxRate = ProcessedRate<BoxRateField>;
+export type ProcessedPalletRate = ProcessedRate<PalletRateField>;
+export type ProcessedReturnRate = ProcessedRate<ReturnRateField>;
+export type ProcessedCommissionRate = ProcessedRate<CommissionRateField>;
+
+export interface ProcessedAcceptanceCoefficient {
+    seller_id: string;
+    warehouse_id: string | null;
+    wb_warehouse_id: number;
+    warehouse_name: string;
+    is_sorting_center: boolean;
+    date: string;
+    box_type_id: number | null;
+    box_type_name: string;
+    coefficient: number;
+    allow_unload: boolean;
+    storage_coef: number | null;
+    delivery_coef: number | null;
+    observed_at: Date;
+}
+
+interface LatestAcceptanceRow {
+    wb_warehouse_id: number;
+    date: string;
+    box_type_name: string;
+    coefficient: number;
+    allow_unload: boolean;
+    storage_coef: number | null;
+    delivery_coef: number | null;
+}
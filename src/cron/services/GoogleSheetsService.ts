@@ -1,6 +1,22 @@
-import { google } from "googleapis";
+import { createHash } from "crypto";
+import { google, sheets_v4 } from "googleapis";
 import knex from "#postgres/knex.js";
 import { Logger } from "../utils/Logger.js";
+import { runWithLogContext } from "../utils/logContext.js";
+import { buildSheetDiffRequests, SheetGrid } from "./sheetDiff.js";
+import {
+    BOX_SHEET_COLUMNS,
+    COMMISSION_SHEET_HEADERS,
+    HISTORY_SHEET_HEADERS,
+    NO_COMMISSIONS_MESSAGE,
+    NO_RATES_MESSAGE,
+    PALLET_SHEET_HEADERS,
+    RECOMMENDATION_SHEET_HEADERS,
+    SheetLocale,
+} from "./sheetColumns.js";
+import { changePercent, RateChange } from "./DataProcessor.js";
+import { WarehouseRanking } from "./CostCalculator.js";
+import { SPREADSHEET_SETTINGS_COLUMNS, SpreadsheetSettings, spreadsheetSettingsSchema } from "./spreadsheetSettings.js";
 
 /**
  * Сервис для работы с Google Sheets
@@ -8,7 +24,7 @@ import { Logger } from "../utils/Logger.js";
 export class GoogleSheetsService {
     private readonly serviceAccountKeyPath: string;
     private readonly logger: Logger;
-    private sheets: any;
+    private sheets: sheets_v4.Sheets | undefined;
 
     constructor(serviceAccountKeyPath: string) {
         this.serviceAccountKeyPath = serviceAccountKeyPath;
@@ -18,7 +34,7 @@ export class GoogleSheetsService {
     /**
      * Инициализация Google Sheets API
      */
-    private async initializeGoogleSheets() {
+    private async initializeGoogleSheets(): Promise<sheets_v4.Sheets> {
         if (this.sheets) {
             return this.sheets;
         }
@@ -44,24 +60,162 @@ export class GoogleSheetsService {
     }
 
     /**
-     * Обновление всех таблиц данными из БД
+     * Обновление листа с тарифами во всех таблицах кабинета: лист, колонки, фильтры, сортировка,
+     * язык и часовой пояс берутся из настроек каждой таблицы
      */
-    async updateSpreadsheets(data: GoogleSheetsData[], pageName: string) {
+    async updateSpreadsheets(sellerId: string, data: GoogleSheetsData[]): Promise<SpreadsheetOutcome[]> {
         this.logger.info(`Starting update of Google Sheets with ${data.length} records`);
 
+        return this.publishToEachSpreadsheet(sellerId, settings => settings.page_name, (sheets, settings, pageName) =>
+            this.updateSingleSpreadsheet(sheets, settings.spreadsheet_id, this.prepareDataForSheets(data, settings), pageName),
+        );
+    }
+
+    /**
+     * Обновление листа с тарифами монопаллет во всех таблицах (лист, язык и часовой пояс - из настроек каждой таблицы)
+     */
+    async updatePalletSpreadsheets(sellerId: string, data: GooglePalletSheetsData[]): Promise<SpreadsheetOutcome[]> {
+        this.logger.info(`Starting update of Google Sheets with ${data.length} pallet records`);
+
+        return this.publishToEachSpreadsheet(sellerId, settings => settings.pallet_page_name, (sheets, settings, pageName) =>
+            this.updateSingleSpreadsheet(sheets, settings.spreadsheet_id, this.preparePalletDataForSheets(data, settings), pageName),
+        );
+    }
+
+    /**
+     * Обновление листа с комиссиями по предметам во всех таблицах (лист, язык и часовой пояс - из настроек каждой таблицы)
+     */
+    async updateCommissionSpreadsheets(sellerId: string, data: GoogleCommissionSheetsData[]): Promise<SpreadsheetOutcome[]> {
+        this.logger.info(`Starting update of Google Sheets with ${data.length} commission records`);
+
+        return this.publishToEachSpreadsheet(sellerId, settings => settings.commission_page_name, (sheets, settings, pageName) =>
+            this.updateSingleSpreadsheet(sheets, settings.spreadsheet_id, this.prepareCommissionDataForSheets(data, settings), pageName),
+        );
+    }
+
+    /**
+     * Обновление листа с рейтингом складов во всех таблицах кабинета (с учетом фильтра регионов таблицы)
+     */
+    async updateRecommendationSpreadsheets(sellerId: string, ranking: WarehouseRanking[], pageName: string): Promise<SpreadsheetOutcome[]> {
+        this.logger.info(`Starting update of Google Sheets with ${ranking.length} recommended warehouses`);
+
+        return this.publishToEachSpreadsheet(sellerId, pageName, (sheets, settings) =>
+            this.updateSingleSpreadsheet(sheets, settings.spreadsheet_id, this.prepareRecommendationDataForSheets(ranking, settings), pageName),
+        );
+    }
+
+    /**
+     * Добавление неопубликованных изменений тарифов (rate_change_events) в конец листа с журналом во всех таблицах кабинета.
+     * Каждая таблица получает только события после своего курсора (rate_change_publications), поэтому повтор
+     * после сбоя не дублирует строки; событие считается опубликованным, когда дописано во все таблицы
+     */
+    async appendRateChanges(sellerId: string, pageName: string): Promise<SpreadsheetOutcome[]> {
+        const events = await this.getPendingRateChanges(sellerId);
+        if (events.length === 0) {
+            this.logger.info("No rate changes to append");
+            return [];
+        }
+
+        this.logger.info(`Appending ${events.length} rate changes to Google Sheets`);
+
+        const outcomes = await this.publishToEachSpreadsheet(sellerId, pageName, async (sheets, settings) => {
+            const publication = await knex('rate_change_publications')
+                .where({ spreadsheet_id: settings.spreadsheet_id, page_name: pageName })
+                .first('last_event_id');
+            const lastEventId = Number(publication?.last_event_id ?? 0);
+
+            const pending = events.filter(event => event.id > lastEventId);
+            if (pending.length === 0) {
+                this.logger.info(`Spreadsheet ${settings.spreadsheet_id} (sheet '${pageName}') already has all rate changes, skipping`);
+                return { status: "unchanged", rows_count: 0 };
+            }
+
+            const result = await this.appendToSingleSpreadsheet(
+                sheets,
+                settings.spreadsheet_id,
+                this.prepareRateChangesForSheets(pending, settings),
+                HISTORY_SHEET_HEADERS[settings.locale],
+                pageName,
+            );
+
+            await knex('rate_change_publications')
+                .insert({
+                    spreadsheet_id: settings.spreadsheet_id,
+                    page_name: pageName,
+                    last_event_id: pending[pending.length - 1].id,
+                    published_at: knex.fn.now(),
+                })
+                .onConflict(['spreadsheet_id', 'page_name'])
+                .merge(['last_event_id', 'published_at']);
+
+            return result;
+        });
+
+        if (outcomes.every(outcome => outcome.status !== "failed")) {
+            await knex('rate_change_events')
+                .whereIn('id', events.map(event => event.id))
+                .update({ published_at: knex.fn.now() });
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * События изменений тарифов кабинета, еще не дописанные во все таблицы, в порядке сохранения
+     */
+    private async getPendingRateChanges(sellerId: string): Promise<RateChangeEvent[]> {
+        const rows = await knex('rate_change_events')
+            .where('seller_id', sellerId)
+            .whereNull('published_at')
+            .orderBy('id')
+            .select('id', 'changed_at', 'rates_label', 'owner_id', 'owner_name', 'fields');
+
+        return rows.map(row => ({ ...row, id: Number(row.id) }));
+    }
+
+    /**
+     * Запись на лист каждой таблицы кабинета (pageName - название листа или его выбор из настроек таблицы).
+     * Ошибка одной таблицы не останавливает остальные и попадает в результат
+     */
+    private async publishToEachSpreadsheet(
+        sellerId: string,
+        pageName: string | ((settings: SpreadsheetSettings) => string),
+        publish: (sheets: sheets_v4.Sheets, settings: SpreadsheetSettings, pageName: string) => Promise<Pick<SpreadsheetOutcome, "status" | "rows_count">>,
+    ): Promise<SpreadsheetOutcome[]> {
         try {
             const sheets = await this.initializeGoogleSheets();
             
-            // Получаем список ID таблиц из БД
-            const spreadsheetIds = await this.getSpreadsheetIds();
-            this.logger.info(`Found ${spreadsheetIds.length} spreadsheets to update`);
+            // Получаем список таблиц из БД
+            const spreadsheets = await this.getSpreadsheets(sellerId);
+            this.logger.info(`Found ${spreadsheets.length} spreadsheets to update`);
 
             // Обновляем каждую таблицу
-            for (const spreadsheetId of spreadsheetIds) {
-                await this.updateSingleSpreadsheet(sheets, spreadsheetId, data, pageName);
+            const outcomes: SpreadsheetOutcome[] = [];
+            for (const settings of spreadsheets) {
+                const sheetName = typeof pageName === "string" ? pageName : pageName(settings);
+                try {
+                    const result = await runWithLogContext({ spreadsheet_id: settings.spreadsheet_id, page_name: sheetName }, () =>
+                        publish(sheets, settings, sheetName),
+                    );
+                    outcomes.push({ spreadsheet_id: settings.spreadsheet_id, page_name: sheetName, ...result });
+                } catch (error) {
+                    outcomes.push({
+                        spreadsheet_id: settings.spreadsheet_id,
+                        page_name: sheetName,
+                        status: "failed",
+                        rows_count: 0,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
             }
 
-            this.logger.info("All spreadsheets updated successfully");
+            const failedCount = outcomes.filter(outcome => outcome.status === "failed").length;
+            if (failedCount > 0) {
+                this.logger.warn(`Failed to update ${failedCount} of ${outcomes.length} spreadsheets (sheet '${typeof pageName === "string" ? pageName : "from settings"}')`);
+            } else {
+                this.logger.info(`All spreadsheets updated successfully (sheet '${typeof pageName === "string" ? pageName : "from settings"}')`);
+            }
+            return outcomes;
 
         } catch (error) {
             this.logger.error("Error updating spreadsheets:", error);
@@ -70,64 +224,132 @@ export class GoogleSheetsService {
     }
 
     /**
-     * Получение списка ID таблиц из БД
+     * Получение таблиц кабинета с настройками вывода из БД
      */
-    private async getSpreadsheetIds(): Promise<string[]> {
+    private async getSpreadsheets(sellerId: string): Promise<SpreadsheetSettings[]> {
         const results = await knex('spreadsheets')
-            .select('spreadsheet_id')
+            .where('seller_id', sellerId)
+            .select('spreadsheet_id', ...SPREADSHEET_SETTINGS_COLUMNS)
             .orderBy('spreadsheet_id');
         
-        return results.map(row => row.spreadsheet_id);
+        return results.map(row => {
+            const settings = spreadsheetSettingsSchema.safeParse(row);
+            if (!settings.success) {
+                throw new Error(`Invalid settings of spreadsheet ${row.spreadsheet_id}: ${settings.error.message}`);
+            }
+            return settings.data;
+        });
     }
 
     /**
-     * Обновление одной таблицы
+     * Обновление одной таблицы: на лист записываются только отличающиеся строки одним batchUpdate,
+     * таблица пропускается, если содержимое не изменилось с последней публикации и лист не удален вручную
      */
     private async updateSingleSpreadsheet(
-        sheets: any, 
+        sheets: sheets_v4.Sheets,
         spreadsheetId: string, 
-        data: GoogleSheetsData[], 
+        values: string[][], 
         pageName: string
-    ) {
+    ): Promise<Pick<SpreadsheetOutcome, "status" | "rows_count">> {
         this.logger.info(`Updating spreadsheet ${spreadsheetId}`);
 
         try {
-            // Проверяем существование листа и создаем его при необходимости
-            await this.ensureSheetExists(sheets, spreadsheetId, pageName);
-            
-            const range = `${pageName}!A1:Z1000`; // Достаточно большой диапазон
-            
-            // Очищаем существующие данные
-            await sheets.spreadsheets.values.clear({
+            const contentHash = createHash("sha256").update(JSON.stringify(values)).digest("hex");
+
+            const publication = await knex('sheet_publications')
+                .where({ spreadsheet_id: spreadsheetId, page_name: pageName })
+                .first('content_hash');
+
+            // Проверяем существование листа и создаем его при необходимости: хешу последней публикации
+            // можно доверять, только если лист не пришлось создавать заново
+            const { grid, created } = await this.ensureSheetExists(sheets, spreadsheetId, pageName);
+
+            if (!created && publication?.content_hash === contentHash) {
+                this.logger.info(`Spreadsheet ${spreadsheetId} (sheet '${pageName}') is up to date, skipping`);
+                return { status: "unchanged", rows_count: values.length };
+            }
+
+            // Текущее содержимое листа для сравнения
+            const response = await sheets.spreadsheets.values.get({
                 spreadsheetId,
-                range
+                range: this.quoteSheetName(pageName),
             });
+            const current: string[][] = response.data.values ?? [];
 
-            // Подготавливаем данные для вставки
-            const values = this.prepareDataForSheets(data);
+            const requests = buildSheetDiffRequests(grid, current, values);
 
-            // Вставляем новые данные
-            await sheets.spreadsheets.values.update({
+            if (requests.length > 0) {
+                await sheets.spreadsheets.batchUpdate({
+                    spreadsheetId,
+                    requestBody: { requests }
+                });
+            }
+
+            await knex('sheet_publications')
+                .insert({
+                    spreadsheet_id: spreadsheetId,
+                    page_name: pageName,
+                    content_hash: contentHash,
+                    rows_count: values.length,
+                    published_at: knex.fn.now(),
+                })
+                .onConflict(['spreadsheet_id', 'page_name'])
+                .merge(['content_hash', 'rows_count', 'published_at']);
+
+            this.logger.info(`Successfully updated spreadsheet ${spreadsheetId} with ${values.length} rows (${requests.length} update requests)`);
+            return { status: "updated", rows_count: values.length };
+
+        } catch (error) {
+            this.logger.error(`Error updating spreadsheet ${spreadsheetId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Добавление строк в конец листа (заголовки пишутся, если лист пустой)
+     */
+    private async appendToSingleSpreadsheet(
+        sheets: sheets_v4.Sheets,
+        spreadsheetId: string,
+        rows: string[][],
+        headers: string[],
+        pageName: string
+    ): Promise<Pick<SpreadsheetOutcome, "status" | "rows_count">> {
+        this.logger.info(`Appending ${rows.length} rows to spreadsheet ${spreadsheetId}`);
+
+        try {
+            await this.ensureSheetExists(sheets, spreadsheetId, pageName);
+
+            const range = this.quoteSheetName(pageName);
+            const firstRow = await sheets.spreadsheets.values.get({
                 spreadsheetId,
-                range: `${pageName}!A1`,
+                range: `${range}!1:1`,
+            });
+            const values = firstRow.data.values?.length ? rows : [headers, ...rows];
+
+            await sheets.spreadsheets.values.append({
+                spreadsheetId,
+                range: `${range}!A1`,
                 valueInputOption: 'RAW',
-                resource: {
+                insertDataOption: 'INSERT_ROWS',
+                requestBody: {
                     values
                 }
             });
 
-            this.logger.info(`Successfully updated spreadsheet ${spreadsheetId} with ${values.length} rows`);
+            this.logger.info(`Successfully appended ${rows.length} rows to spreadsheet ${spreadsheetId}`);
+            return { status: "appended", rows_count: rows.length };
 
         } catch (error) {
-            this.logger.error(`Error updating spreadsheet ${spreadsheetId}:`, error);
+            this.logger.error(`Error appending to spreadsheet ${spreadsheetId}:`, error);
             throw error;
         }
     }
 
     /**
-     * Проверка существования листа и создание его при необходимости
+     * Проверка существования листа по метаданным таблицы и создание его при необходимости (created = true)
      */
-    private async ensureSheetExists(sheets: any, spreadsheetId: string, sheetName: string) {
+    private async ensureSheetExists(sheets: sheets_v4.Sheets, spreadsheetId: string, sheetName: string): Promise<{ grid: SheetGrid; created: boolean }> {
         try {
             // Получаем информацию о таблице
             const spreadsheet = await sheets.spreadsheets.get({
@@ -135,101 +357,212 @@ export class GoogleSheetsService {
             });
 
             // Проверяем, существует ли лист с нужным именем
-            const existingSheet = spreadsheet.data.sheets?.find((sheet: any) => 
-                sheet.properties.title === sheetName
+            const existingSheet = spreadsheet.data.sheets?.find((sheet) => 
+                sheet.properties?.title === sheetName
             );
 
-            if (!existingSheet) {
-                this.logger.info(`Sheet '${sheetName}' not found, creating it...`);
-                
-                // Создаем новый лист
-                await sheets.spreadsheets.batchUpdate({
-                    spreadsheetId,
-                    resource: {
-                        requests: [{
-                            addSheet: {
-                                properties: {
-                                    title: sheetName
-                                }
-                            }
-                        }]
-                    }
-                });
-                
-                this.logger.info(`Sheet '${sheetName}' created successfully`);
-            } else {
+            if (existingSheet) {
                 this.logger.info(`Sheet '${sheetName}' already exists`);
+                return { grid: this.toSheetGrid(existingSheet.properties), created: false };
             }
 
+            this.logger.info(`Sheet '${sheetName}' not found, creating it...`);
+            
+            // Создаем новый лист
+            const response = await sheets.spreadsheets.batchUpdate({
+                spreadsheetId,
+                requestBody: {
+                    requests: [{
+                        addSheet: {
+                            properties: {
+                                title: sheetName
+                            }
+                        }
+                    }]
+                }
+            });
+            
+            this.logger.info(`Sheet '${sheetName}' created successfully`);
+            return { grid: this.toSheetGrid(response.data.replies?.[0]?.addSheet?.properties), created: true };
+
         } catch (error) {
             this.logger.error(`Error ensuring sheet '${sheetName}' exists:`, error);
             throw error;
         }
     }
 
+    private toSheetGrid(properties: sheets_v4.Schema$SheetProperties | undefined): SheetGrid {
+        return {
+            sheetId: properties?.sheetId ?? 0,
+            rowCount: properties?.gridProperties?.rowCount ?? 0,
+            columnCount: properties?.gridProperties?.columnCount ?? 0,
+        };
+    }
+
+    /**
+     * Название листа в A1-нотации
+     */
+    private quoteSheetName(sheetName: string): string {
+        return `'${sheetName.replace(/'/g, "''")}'`;
+    }
+
     /**
      * Подготовка данных для Google Sheets (преобразование в двумерный массив)
-     * Показывает только актуальные тарифы без ID, отсортированные по FBS коэффициенту
+     * Показывает только актуальные тарифы без ID с учетом фильтров, сортировки и набора колонок таблицы
      */
-    private prepareDataForSheets(data: GoogleSheetsData[]): string[][] {
-        if (data.length === 0) {
-            return [["Нет актуальных тарифов"]];
+    private prepareDataForSheets(data: GoogleSheetsData[], settings: SpreadsheetSettings): string[][] {
+        const geoNames = settings.geo_names && new Set(settings.geo_names);
+        const warehouseNames = settings.warehouse_names && new Set(settings.warehouse_names);
+
+        const rows = data
+            .filter(row => !geoNames || geoNames.has(row.geo_name))
+            .filter(row => !warehouseNames || warehouseNames.has(row.warehouse_name));
+
+        if (rows.length === 0) {
+            return [[NO_RATES_MESSAGE[settings.locale]]];
         }
 
-        const headers = [
-            "Регион",
-            "Склад",
-            "Дата начала",
-            "Дата окончания",
-            "Логистика (₽/л)",
-            "Логистика коэф",
-            "Логистика доп (₽/л)",
-            "FBS база (₽/л)",
-            "FBS коэф",
-            "FBS доп (₽/л)",
-            "Хранение (₽/л/день)",
-            "Хранение коэф",
-            "Хранение доп (₽/л/день)"
-        ];
+        const direction = settings.sort_direction === "desc" ? -1 : 1;
+        rows.sort((a, b) => direction * this.compareValues(a[settings.sort_key], b[settings.sort_key], BOX_SHEET_COLUMNS[settings.sort_key].format));
+
+        const headers = settings.columns.map(key => BOX_SHEET_COLUMNS[key].headers[settings.locale]);
 
         // Данные с форматированием
+        const values = rows.map(row => settings.columns.map(key => {
+            const value = row[key];
+            switch (BOX_SHEET_COLUMNS[key].format) {
+                case "date":
+                    return key === "end_date"
+                        ? this.formatEndDate(value as string | null, settings.locale, settings.timezone)
+                        : this.formatDate(value as string, settings.locale, settings.timezone);
+                case "number":
+                    return this.formatNumber(value);
+                default:
+                    return value === null || value === undefined ? "" : String(value);
+            }
+        }));
+
+        return [headers, ...values];
+    }
+
+    /**
+     * Сравнение значений колонки для сортировки (пустые значения - в конце)
+     */
+    private compareValues(a: unknown, b: unknown, format: "text" | "date" | "number"): number {
+        if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+        if (b === null || b === undefined) return -1;
+
+        if (format === "number") return Number(a) - Number(b);
+        if (format === "date") return new Date(a as string).getTime() - new Date(b as string).getTime();
+        return String(a).localeCompare(String(b));
+    }
+
+    /**
+     * Подготовка рейтинга складов: места пересчитываются после фильтра регионов таблицы
+     */
+    private prepareRecommendationDataForSheets(ranking: WarehouseRanking[], settings: SpreadsheetSettings): string[][] {
+        const geoNames = settings.geo_names && new Set(settings.geo_names);
+        const rows = ranking.filter(row => !geoNames || geoNames.has(row.geo_name));
+
+        if (rows.length === 0) {
+            return [[NO_RATES_MESSAGE[settings.locale]]];
+        }
+
+        const values = rows.map((row, index) => [
+            String(index + 1),
+            row.geo_name,
+            row.warehouse_name,
+            this.formatNumber(row.fbo_logistics),
+            this.formatNumber(row.storage_per_day),
+            this.formatNumber(row.storage),
+            this.formatNumber(row.total),
+        ]);
+
+        return [RECOMMENDATION_SHEET_HEADERS[settings.locale], ...values];
+    }
+
+    /**
+     * Подготовка журнала изменений тарифов: строка на каждое изменившееся поле
+     * со старым и новым значением и изменением в процентах
+     */
+    private prepareRateChangesForSheets(changes: RateChange[], settings: SpreadsheetSettings): string[][] {
+        return changes.flatMap(change => change.fields.map(fieldChange => [
+            this.formatDate(change.changed_at.toISOString(), settings.locale, settings.timezone),
+            change.rates_label,
+            change.owner_name,
+            fieldChange.field,
+            this.formatNumber(fieldChange.old_value),
+            this.formatNumber(fieldChange.new_value),
+            this.formatNumber(changePercent(fieldChange)),
+        ]));
+    }
+
+    /**
+     * Подготовка тарифов монопаллет: заголовки, язык и часовой пояс дат - из настроек таблицы
+     */
+    private preparePalletDataForSheets(data: GooglePalletSheetsData[], settings: SpreadsheetSettings): string[][] {
+        if (data.length === 0) {
+            return [[NO_RATES_MESSAGE[settings.locale]]];
+        }
+
         const rows = data.map(row => [
             row.geo_name || "",
             row.warehouse_name || "",
-            this.formatDate(row.start_date),
-            this.formatEndDate(row.end_date),
-            this.formatNumber(row.box_delivery_base),
-            this.formatNumber(row.box_delivery_coef),
-            this.formatNumber(row.box_delivery_liter),
-            this.formatNumber(row.box_delivery_marketplace_base),
-            this.formatNumber(row.box_delivery_marketplace_coef),
-            this.formatNumber(row.box_delivery_marketplace_liter),
-            this.formatNumber(row.box_storage_base),
-            this.formatNumber(row.box_storage_coef),
-            this.formatNumber(row.box_storage_liter),
+            this.formatDate(row.start_date, settings.locale, settings.timezone),
+            this.formatEndDate(row.end_date, settings.locale, settings.timezone),
+            this.formatNumber(row.pallet_delivery_base),
+            this.formatNumber(row.pallet_delivery_coef),
+            this.formatNumber(row.pallet_delivery_liter),
+            this.formatNumber(row.pallet_storage_value),
+            this.formatNumber(row.pallet_storage_coef),
         ]);
 
-        return [headers, ...rows];
+        return [PALLET_SHEET_HEADERS[settings.locale], ...rows];
+    }
+
+    /**
+     * Подготовка комиссий по предметам: заголовки, язык и часовой пояс дат - из настроек таблицы
+     */
+    private prepareCommissionDataForSheets(data: GoogleCommissionSheetsData[], settings: SpreadsheetSettings): string[][] {
+        if (data.length === 0) {
+            return [[NO_COMMISSIONS_MESSAGE[settings.locale]]];
+        }
+
+        const rows = data.map(row => [
+            row.parent_name || "",
+            row.subject_name || "",
+            String(row.wb_subject_id),
+            this.formatDate(row.start_date, settings.locale, settings.timezone),
+            this.formatNumber(row.commission_fbo),
+            this.formatNumber(row.commission_fbs),
+            this.formatNumber(row.commission_dbs),
+            this.formatNumber(row.commission_edbs),
+            this.formatNumber(row.commission_pickup),
+            this.formatNumber(row.commission_booking),
+        ]);
+
+        return [COMMISSION_SHEET_HEADERS[settings.locale], ...rows];
     }
 
     /**
      * Форматирование даты окончания (с датой и временем до минут)
      */
-    private formatEndDate(endDate: string | null): string {
+    private formatEndDate(endDate: string | null, locale: SheetLocale = "ru", timezone?: string): string {
         if (!endDate) {
             return "-";  // Бессрочный тариф
         }
         
-        return this.formatDate(endDate);
+        return this.formatDate(endDate, locale, timezone);
     }
 
     /**
      * Форматирование даты и времени в читаемый вид (до минут)
      */
-    private formatDate(dateString: string): string {
+    private formatDate(dateString: string, locale: SheetLocale = "ru", timezone?: string): string {
         try {
             const date = new Date(dateString);
-            return date.toLocaleString('ru-RU', {
+            return date.toLocaleString(locale === "en" ? 'en-GB' : 'ru-RU', {
+                timeZone: timezone,
                 day: '2-digit',
                 month: '2-digit', 
                 year: 'numeric',
@@ -245,9 +578,10 @@ export class GoogleSheetsService {
     /**
      * Форматирование числовых значений
      */
-    private formatNumber(value: any): string {
-        if (value === null || value === undefined || value === "" || isNaN(value)) return "-";
+    private formatNumber(value: unknown): string {
+        if (value === null || value === undefined || value === "") return "-";
         const num = Number(value);
+        if (isNaN(num)) return "-";
         return num.toFixed(2);
     }
 
@@ -256,18 +590,62 @@ export class GoogleSheetsService {
 /**
  * Типы данных для Google Sheets
  */
+/**
+ * Результат записи на лист одной таблицы
+ */
+export interface SpreadsheetOutcome {
+    spreadsheet_id: string;
+    page_name: string;
+    /** unchanged - содержимое не изменилось с последней публикации, запись пропущена */
+    status: "updated" | "unchanged" | "appended" | "failed";
+    rows_count: number;
+    error?: string;
+}
+
+/**
+ * Сохраненное изменение тарифов, ожидающее записи на лист журнала
+ */
+interface RateChangeEvent extends RateChange {
+    id: number;
+}
+
 export interface GoogleSheetsData {
     geo_name: string;
     warehouse_name: string;
     start_date: string;
     end_date: string | null;
-    box_delivery_base: number;
-    box_delivery_coef: number;
-    box_delivery_liter: number;
-    box_delivery_marketplace_base: number;
-    box_delivery_marketplace_coef: number;
-    box_delivery_marketplace_liter: number;
-    box_storage_base: number;
-    box_storage_coef: number;
-    box_storage_liter: number;
+    box_delivery_base: number | null;
+    box_delivery_coef: number | null;
+    box_delivery_liter: number | null;
+    box_delivery_marketplace_base: number | null;
+    box_delivery_marketplace_coef: number | null;
+    box_delivery_marketplace_liter: number | null;
+    box_storage_base: number | null;
+    box_storage_coef: number | null;
+    box_storage_liter: number | null;
+}
+
+export interface GooglePalletSheetsData {
+    geo_name: string;
+    warehouse_name: string;
+    start_date: string;
+    end_date: string | null;
+    pallet_delivery_base: number | null;
+    pallet_delivery_coef: number | null;
+    pallet_delivery_liter: number | null;
+    pallet_storage_coef: number | null;
+    pallet_storage_value: number | null;
+}
+
+export interface GoogleCommissionSheetsData {
+    wb_subject_id: number;
+    subject_name: string;
+    parent_name: string;
+    start_date: string;
+    commission_fbo: number | null;
+    commission_fbs: number | null;
+    commission_dbs: number | null;
+    commission_edbs: number | null;
+    commission_pickup: number | null;
+    commission_booking: number | null;
 }
@@ -0,0 +1,166 @@
+import fs from "fs/promises";
+import knex from "#postgres/knex.js";
+import env from "#config/env/env.js";
+import { Logger } from "../utils/Logger.js";
+import { JobScheduler } from "../jobs/JobScheduler.js";
+import { SellerService } from "./SellerService.js";
+import { isWbMockMode } from "./WildberriesApiService.js";
+
+/**
+ * Таймаут одной проверки: healthcheck контейнера ждет ответ несколько секунд
+ */
+const CHECK_TIMEOUT_MS = 2_000;
+
+/**
+ * Задачи, время последнего успешного запуска которых попадает в проверку готовности
+ */
+const SYNC_JOBS = ["sync-rates", "publish-sheets", "sync-acceptance"];
+
+/**
+ * Проверки живости и готовности приложения для healthcheck контейнера
+ */
+export class HealthService {
+    private readonly logger: Logger;
+    private readonly scheduler: JobScheduler | undefined;
+
+    /**
+     * scheduler - планировщик задач приложения; без него (только HTTP API) планировщик не проверяется
+     */
+    constructor(scheduler?: JobScheduler) {
+        this.logger = new Logger("HealthService");
+        this.scheduler = scheduler;
+    }
+
+    /**
+     * Живость: процесс отвечает и планировщик задач работает. БД не проверяется,
+     * чтобы недоступность Postgres не приводила к перезапуску приложения
+     */
+    checkLiveness(): HealthReport {
+        const checks: Record<string, HealthCheck> = {};
+        if (this.scheduler) {
+            checks.scheduler = this.checkScheduler();
+        }
+        return toReport(checks);
+    }
+
+    /**
+     * Готовность: планировщик, подключение к БД, отсутствие невыполненных миграций, наличие ключей WB API и Google,
+     * время последней успешной синхронизации (ошибка - только если задан HEALTH_MAX_SYNC_AGE_MINUTES)
+     */
+    async checkReadiness(): Promise<HealthReport> {
+        const [database, migrations, credentials, lastSync] = await Promise.all([
+            this.runCheck("database", () => this.checkDatabase()),
+            this.runCheck("migrations", () => this.checkMigrations()),
+            this.runCheck("credentials", () => this.checkCredentials()),
+            this.runCheck("last_sync", () => this.checkLastSync()),
+        ]);
+
+        const checks: Record<string, HealthCheck> = {};
+        if (this.scheduler) {
+            checks.scheduler = this.checkScheduler();
+        }
+        return toReport({ ...checks, database, migrations, credentials, last_sync: lastSync });
+    }
+
+    private checkScheduler(): HealthCheck {
+        const { alive, ...status } = this.scheduler!.getStatus();
+        return alive ? { status: "ok", ...status } : { status: "fail", ...status, error: "Job scheduler is not running" };
+    }
+
+    private async checkDatabase(): Promise<HealthCheck> {
+        const startedAt = Date.now();
+        await knex.raw("select 1");
+        return { status: "ok", latency_ms: Date.now() - startedAt };
+    }
+
+    private async checkMigrations(): Promise<HealthCheck> {
+        const [, pending]: [unknown[], { file: string }[]] = await knex.migrate.list();
+        const pendingFiles = pending.map((migration) => migration.file);
+
+        return pendingFiles.length === 0
+            ? { status: "ok", pending: [] }
+            : { status: "fail", pending: pendingFiles, error: `${pendingFiles.length} pending migrations` };
+    }
+
+    /**
+     * Ключи WB API проверяются у активных кабинетов (в режиме моковых данных не нужны), ключ Google - наличием файла
+     */
+    private async checkCredentials(): Promise<HealthCheck> {
+        const errors: string[] = [];
+
+        const googleKey = await fs
+            .access(env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH)
+            .then(() => true)
+            .catch(() => false);
+        if (!googleKey) errors.push("Google service account key file is missing");
+
+        let wbTokens: "present" | "missing" | "not_required" = "not_required";
+        if (!isWbMockMode()) {
+            const sellers = await new SellerService().getActiveSellers();
+            const sellersWithoutToken = sellers.filter((seller) => !seller.wb_token).map((seller) => seller.name);
+
+            if (sellers.length === 0) errors.push("No active sellers");
+            if (sellersWithoutToken.length > 0) errors.push(`WB API token is missing for sellers: ${sellersWithoutToken.join(", ")}`);
+            wbTokens = sellers.length === 0 || sellersWithoutToken.length > 0 ? "missing" : "present";
+        }
+
+        const details = { google_service_account_key: googleKey ? "present" : "missing", wb_tokens: wbTokens };
+        return errors.length === 0 ? { status: "ok", ...details } : { status: "fail", ...details, error: errors.join("; ") };
+    }
+
+    private async checkLastSync(): Promise<HealthCheck> {
+        const rows: { job: string; finished_at: Date }[] = await knex("sync_runs")
+            .whereIn("job", SYNC_JOBS)
+            .where("status", "succeeded")
+            .groupBy("job")
+            .select("job", knex.raw("max(finished_at) as finished_at"));
+
+        const lastSuccess = Object.fromEntries(SYNC_JOBS.map((job) => [job, rows.find((row) => row.job === job)?.finished_at ?? null]));
+
+        const maxAgeMinutes = env.HEALTH_MAX_SYNC_AGE_MINUTES;
+        const lastRatesSync = lastSuccess["sync-rates"];
+        if (maxAgeMinutes !== undefined && (!lastRatesSync || Date.now() - lastRatesSync.getTime() > maxAgeMinutes * 60_000)) {
+            return { status: "fail", last_success: lastSuccess, error: `No successful rates synchronization in the last ${maxAgeMinutes} minutes` };
+        }
+        return { status: "ok", last_success: lastSuccess };
+    }
+
+    /**
+     * Проверка с таймаутом: зависшее подключение к БД считается ошибкой
+     */
+    private async runCheck(name: string, check: () => Promise<HealthCheck>): Promise<HealthCheck> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Check timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+        });
+
+        try {
+            return await Promise.race([check(), timeout]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Health check ${name} failed: ${message}`);
+            return { status: "fail", error: message };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+function toReport(checks: Record<string, HealthCheck>): HealthReport {
+    const ok = Object.values(checks).every((check) => check.status === "ok");
+    return { status: ok ? "ok" : "fail", checks };
+}
+
+/**
+ * Результат проверки: статус, подробности и текст ошибки
+ */
+export interface HealthCheck {
+    status: "ok" | "fail";
+    error?: string;
+    [detail: string]: unknown;
+}
+
+export interface HealthReport {
+    status: "ok" | "fail";
+    checks: Record<string, HealthCheck>;
+}
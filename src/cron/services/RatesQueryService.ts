@@ -0,0 +1,287 @@
+import { Knex } from "knex";
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { BOX_RATE_FIELDS, BoxRateField, COMMISSION_RATE_FIELDS, CommissionRateField, PALLET_RATE_FIELDS, PalletRateField } from "./rateTables.js";
+import { tariffPeriodEndsAfter } from "./tariffPeriods.js";
+
+/**
+ * Соответствие ключей сортировки колонкам запроса
+ */
+const SORT_COLUMNS: Record<RatesSortKey, string> = {
+    geo_name: "warehouses.geo_name",
+    warehouse_name: "warehouses.warehouse_name",
+    start_date: "tariff_periods.start_date",
+    end_date: "tariff_periods.end_date",
+    ...Object.fromEntries(BOX_RATE_FIELDS.map((field) => [field, `box_rates.${field}`])),
+} as Record<RatesSortKey, string>;
+
+export const RATES_SORT_KEYS = Object.keys(SORT_COLUMNS) as RatesSortKey[];
+
+/**
+ * Сервис чтения тарифов коробов из БД (актуальные тарифы и история)
+ */
+export class RatesQueryService {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger("RatesQueryService");
+    }
+
+    /**
+     * Актуальные тарифы (с end_date = null или end_date > now)
+     */
+    async getCurrentRates(filters: RatesFilters = {}, sort?: RatesSort): Promise<BoxRateRow[]> {
+        const query = this.buildCurrentRatesQuery(filters);
+        this.applySort(query, sort ?? DEFAULT_CURRENT_SORT);
+
+        const rows = await query;
+        this.logger.info(`Retrieved ${rows.length} current rates from database`);
+        return rows;
+    }
+
+    /**
+     * Страница актуальных тарифов с общим количеством строк
+     */
+    async getCurrentRatesPage(filters: RatesFilters, sort: RatesSort | undefined, page: Pagination): Promise<Paginated<BoxRateRow>> {
+        return this.paginate(this.buildCurrentRatesQuery(filters), sort ?? DEFAULT_CURRENT_SORT, page);
+    }
+
+    /**
+     * История тарифов по складам: все периоды, пересекающиеся с диапазоном [from, to]
+     */
+    async getRatesHistoryPage(filters: RatesHistoryFilters, sort: RatesSort | undefined, page: Pagination): Promise<Paginated<BoxRateRow>> {
+        const query = this.buildBaseQuery(filters);
+
+        if (filters.from) {
+            const from = filters.from;
+            query.where(tariffPeriodEndsAfter(from));
+        }
+        if (filters.to) {
+            query.where("tariff_periods.start_date", "<=", filters.to);
+        }
+
+        return this.paginate(query, sort ?? DEFAULT_HISTORY_SORT, page);
+    }
+
+    /**
+     * Тарифы, действовавшие в момент времени at
+     */
+    async getRatesAt(filters: RatesFilters, at: Date): Promise<BoxRateRow[]> {
+        const query = this.buildBaseQuery(filters)
+            .where("tariff_periods.start_date", "<=", at)
+            .where(tariffPeriodEndsAfter(at));
+        this.applySort(query, DEFAULT_CURRENT_SORT);
+
+        return query;
+    }
+
+    /**
+     * Актуальные тарифы монопаллет
+     */
+    async getCurrentPalletRates(sellerId?: string): Promise<PalletRateRow[]> {
+        const now = new Date();
+
+        const query = knex("pallet_rates")
+            .join("warehouses", "pallet_rates.warehouse_id", "warehouses.id")
+            .join("tariff_periods", "pallet_rates.tariff_period_id", "tariff_periods.id")
+            .where(tariffPeriodEndsAfter(now))
+            .select(
+                "pallet_rates.seller_id",
+                "warehouses.id as warehouse_id",
+                "warehouses.geo_name",
+                "warehouses.warehouse_name",
+                ...PALLET_RATE_FIELDS.map((field) => knex.raw(`pallet_rates.${field}::float as ${field}`)),
+                "tariff_periods.start_date",
+                "tariff_periods.end_date",
+            )
+            .orderBy("pallet_rates.pallet_storage_value", "asc")
+            .orderBy("warehouses.geo_name")
+            .orderBy("warehouses.warehouse_name");
+
+        if (sellerId) query.where("pallet_rates.seller_id", sellerId);
+
+        const rows = await query;
+        this.logger.info(`Retrieved ${rows.length} current pallet rates from database`);
+        return rows;
+    }
+
+    /**
+     * Актуальные комиссии по предметам
+     */
+    async getCurrentCommissionRates(sellerId?: string): Promise<CommissionRateRow[]> {
+        const now = new Date();
+
+        const query = knex("commission_rates")
+            .join("subjects", "commission_rates.subject_id", "subjects.id")
+            .join("tariff_periods", "commission_rates.tariff_period_id", "tariff_periods.id")
+            .where(tariffPeriodEndsAfter(now))
+            .select(
+                "commission_rates.seller_id",
+                "subjects.wb_subject_id",
+                "subjects.subject_name",
+                "subjects.wb_parent_id",
+                "subjects.parent_name",
+                ...COMMISSION_RATE_FIELDS.map((field) => knex.raw(`commission_rates.${field}::float as ${field}`)),
+                "tariff_periods.start_date",
+                "tariff_periods.end_date",
+            )
+            .orderBy("subjects.parent_name")
+            .orderBy("subjects.subject_name");
+
+        if (sellerId) query.where("commission_rates.seller_id", sellerId);
+
+        const rows = await query;
+        this.logger.info(`Retrieved ${rows.length} current commission rates from database`);
+        return rows;
+    }
+
+    /**
+     * Список известных складов
+     */
+    async getWarehouses(filters: WarehousesFilters = {}): Promise<WarehouseRow[]> {
+        const query = knex("warehouses")
+            .select("id", "geo_name", "warehouse_name", "is_active", "last_seen_at")
+            .orderBy("geo_name")
+            .orderBy("warehouse_name");
+
+        if (filters.geo_name) query.where("geo_name", filters.geo_name);
+        if (filters.warehouse_name) query.where("warehouse_name", filters.warehouse_name);
+        if (filters.is_active !== undefined) query.where("is_active", filters.is_active);
+
+        return query;
+    }
+
+    private buildCurrentRatesQuery(filters: RatesFilters): Knex.QueryBuilder {
+        const now = new Date();
+
+        return this.buildBaseQuery(filters).where(tariffPeriodEndsAfter(now));
+    }
+
+    private buildBaseQuery(filters: RatesFilters): Knex.QueryBuilder {
+        const query = knex("box_rates")
+            .join("warehouses", "box_rates.warehouse_id", "warehouses.id")
+            .join("tariff_periods", "box_rates.tariff_period_id", "tariff_periods.id")
+            .select(
+                "box_rates.seller_id",
+                "warehouses.id as warehouse_id",
+                "warehouses.geo_name",
+                "warehouses.warehouse_name",
+                ...BOX_RATE_FIELDS.map((field) => knex.raw(`box_rates.${field}::float as ${field}`)),
+                "tariff_periods.start_date",
+                "tariff_periods.end_date",
+            );
+
+        if (filters.seller_id) query.where("box_rates.seller_id", filters.seller_id);
+        if (filters.geo_name) query.where("warehouses.geo_name", filters.geo_name);
+        if (filters.warehouse_name) query.where("warehouses.warehouse_name", filters.warehouse_name);
+        if (filters.warehouse_id) query.where("warehouses.id", filters.warehouse_id);
+
+        return query;
+    }
+
+    private applySort(query: Knex.QueryBuilder, sort: RatesSort): void {
+        query.orderBy(SORT_COLUMNS[sort.key], sort.direction);
+
+        // Стабильный порядок для постраничной выдачи
+        if (sort.key !== "geo_name") query.orderBy("warehouses.geo_name");
+        if (sort.key !== "warehouse_name") query.orderBy("warehouses.warehouse_name");
+        if (sort.key !== "start_date") query.orderBy("tariff_periods.start_date");
+    }
+
+    private async paginate(query: Knex.QueryBuilder, sort: RatesSort, page: Pagination): Promise<Paginated<BoxRateRow>> {
+        const countQuery = query.clone().clearSelect().clearOrder().count<{ total: string }[]>("* as total");
+
+        this.applySort(query, sort);
+        query.limit(page.limit).offset(page.offset);
+
+        const [rows, [{ total }]] = await Promise.all([query, countQuery]);
+
+        return {
+            data: rows,
+            pagination: {
+                total: Number(total),
+                limit: page.limit,
+                offset: page.offset,
+            },
+        };
+    }
+}
+
+const DEFAULT_CURRENT_SORT: RatesSort = { key: "box_storage_coef", direction: "asc" };
+const DEFAULT_HISTORY_SORT: RatesSort = { key: "start_date", direction: "desc" };
+
+/**
+ * Типы запросов и результатов
+ */
+export type RatesSortKey = "geo_name" | "warehouse_name" | "start_date" | "end_date" | BoxRateField;
+
+export interface RatesFilters {
+    seller_id?: string;
+    geo_name?: string;
+    warehouse_name?: string;
+    warehouse_id?: string;
+}
+
+/**
+ * is_active - склад есть в последних ответах WB (у него остались действующие тарифы)
+ */
+export interface WarehousesFilters extends RatesFilters {
+    is_active?: boolean;
+}
+
+export interface RatesHistoryFilters extends RatesFilters {
+    from?: Date;
+    to?: Date;
+}
+
+export interface RatesSort {
+    key: RatesSortKey;
+    direction: "asc" | "desc";
+}
+
+export interface Pagination {
+    limit: number;
+    offset: number;
+}
+
+export interface Paginated<T> {
+    data: T[];
+    pagination: Pagination & { total: number };
+}
+
+export type BoxRateRow = {
+    seller_id: string;
+    warehouse_id: string;
+    geo_name: string;
+    warehouse_name: string;
+    start_date: string;
+    end_date: string | null;
+} & Record<BoxRateField, number | null>;
+
+export type PalletRateRow = {
+    seller_id: string;
+    warehouse_id: string;
+    geo_name: string;
+    warehouse_name: string;
+    start_date: string;
+    end_date: string | null;
+} & Record<PalletRateField, number | null>;
+
+export type CommissionRateRow = {
+    seller_id: string;
+    wb_subject_id: number;
+    subject_name: string;
+    wb_parent_id: number;
+    parent_name: string;
+    start_date: string;
+    end_date: string | null;
+} & Record<CommissionRateField, number | null>;
+
+export interface WarehouseRow {
+    id: string;
+    geo_name: string;
+    warehouse_name: string;
+    is_active: boolean;
+    /** Время последнего появления склада в ответе WB */
+    last_seen_at: Date | null;
+}
@@ -0,0 +1,228 @@
+import { Knex } from "knex";
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { BOX_RATES_TABLE, PALLET_RATES_TABLE, RatesTable, RETURN_RATES_TABLE } from "./rateTables.js";
+import { tariffPeriodEndsAfter } from "./tariffPeriods.js";
+import { encodeTimelineCursor, RatesAsOfInput, RatesBetweenInput, RatesTimelineFilters, WAREHOUSE_RATES_KINDS, WarehouseRatesKind } from "./ratesTimeline.js";
+
+const RATES_TABLES: Record<WarehouseRatesKind, RatesTable> = {
+    box: BOX_RATES_TABLE,
+    pallet: PALLET_RATES_TABLE,
+    return: RETURN_RATES_TABLE,
+};
+
+/**
+ * Тарифы складов на произвольный момент времени и их хронология по периодам действия (tariff_periods).
+ * Период действует с start_date включительно до end_date не включительно: при изменении тарифов старый период
+ * закрывается тем же временем, с которого начинается новый
+ */
+export class RatesTimelineService {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger("RatesTimelineService");
+    }
+
+    /**
+     * Тарифы, действовавшие в момент at, по складу и кабинету. Вид тарифов без действующего периода - null
+     */
+    async asOf(input: RatesAsOfInput): Promise<RatesAsOfRow[]> {
+        const { at } = input;
+        const kinds = input.rates ?? [...WAREHOUSE_RATES_KINDS];
+
+        const warehouses = new Map<string, RatesAsOfRow>();
+        for (const kind of kinds) {
+            const periods = await this.getPeriods(kind, input, (query) => {
+                query.where("tariff_periods.start_date", "<=", at).where(tariffPeriodEndsAfter(at));
+            });
+
+            for (const period of periods) {
+                const key = `${period.seller_id}:${period.warehouse_id}`;
+                let row = warehouses.get(key);
+                if (!row) {
+                    row = { ...toWarehouse(period), rates: Object.fromEntries(kinds.map((kind) => [kind, null])) };
+                    warehouses.set(key, row);
+                }
+                row.rates[kind] = toRatesPeriod(period, RATES_TABLES[kind]);
+            }
+        }
+
+        this.logger.info(`Retrieved ${kinds.join(", ")} rates of ${warehouses.size} warehouses as of ${at.toISOString()}`);
+        return sortByWarehouse([...warehouses.values()]);
+    }
+
+    /**
+     * Хронология тарифов за интервал [from, to] по складу и кабинету: все пересекающиеся с ним периоды
+     * в порядке начала действия. Страница - до limit складов, next_cursor = null - страница последняя
+     */
+    async between(input: RatesBetweenInput): Promise<TimelinePage> {
+        const { from, to } = input;
+        const kinds = input.rates ?? [...WAREHOUSE_RATES_KINDS];
+        const inInterval = (query: Knex.QueryBuilder) => {
+            query.where("tariff_periods.start_date", "<=", to).where(tariffPeriodEndsAfter(from));
+        };
+
+        const page = await this.getWarehousesPage(kinds, input, inInterval);
+        const warehouses = page.slice(0, input.limit);
+
+        const timelines = new Map<string, WarehouseTimeline>(
+            warehouses.map((warehouse) => [
+                `${warehouse.seller_id}:${warehouse.warehouse_id}`,
+                { ...warehouse, periods: Object.fromEntries(kinds.map((kind) => [kind, []])) },
+            ]),
+        );
+        if (warehouses.length > 0) {
+            for (const kind of kinds) {
+                const table = RATES_TABLES[kind];
+                const periods = await this.getPeriods(kind, input, (query) => {
+                    inInterval(query);
+                    query
+                        .whereIn(
+                            [`${table.tableName}.seller_id`, `${table.tableName}.warehouse_id`],
+                            warehouses.map((warehouse) => [warehouse.seller_id, warehouse.warehouse_id]),
+                        )
+                        .orderBy("tariff_periods.start_date");
+                });
+
+                for (const period of periods) {
+                    timelines.get(`${period.seller_id}:${period.warehouse_id}`)?.periods[kind]!.push(toRatesPeriod(period, RATES_TABLES[kind]));
+                }
+            }
+        }
+
+        const nextCursor = page.length > input.limit ? encodeTimelineCursor(warehouses[warehouses.length - 1]) : null;
+
+        this.logger.info(`Retrieved ${kinds.join(", ")} rates timeline of ${timelines.size} warehouses from ${from.toISOString()} to ${to.toISOString()}`);
+        return { data: [...timelines.values()], next_cursor: nextCursor };
+    }
+
+    /**
+     * Склады с периодами хотя бы одного вида тарифов после курсора, в порядке округа, названия и кабинета:
+     * limit + 1 строка, лишняя строка означает, что есть следующая страница
+     */
+    private async getWarehousesPage(
+        kinds: WarehouseRatesKind[],
+        input: RatesBetweenInput,
+        where: (query: Knex.QueryBuilder) => void,
+    ): Promise<RatesWarehouse[]> {
+        const owners = kinds.map((kind) =>
+            this.getPeriodsQuery(kind, input, where)
+                .clearSelect()
+                .distinct(`${RATES_TABLES[kind].tableName}.seller_id`, "warehouses.id as warehouse_id", "warehouses.geo_name", "warehouses.warehouse_name"),
+        );
+
+        const query = knex
+            .select("seller_id", "warehouse_id", "geo_name", "warehouse_name")
+            .from(knex.union(owners).as("owners"))
+            .orderBy(["geo_name", "warehouse_name", "seller_id"])
+            .limit(input.limit + 1);
+
+        if (input.cursor) {
+            const { geo_name, warehouse_name, seller_id } = input.cursor;
+            query.whereRaw("(geo_name, warehouse_name, seller_id) > (?, ?, ?::uuid)", [geo_name, warehouse_name, seller_id]);
+        }
+
+        return query;
+    }
+
+    /**
+     * Периоды тарифов одного вида со складом; условие на период задает where
+     */
+    private async getPeriods(kind: WarehouseRatesKind, filters: RatesTimelineFilters, where: (query: Knex.QueryBuilder) => void): Promise<RatesPeriodRow[]> {
+        return this.getPeriodsQuery(kind, filters, where);
+    }
+
+    private getPeriodsQuery(kind: WarehouseRatesKind, filters: RatesTimelineFilters, where: (query: Knex.QueryBuilder) => void): Knex.QueryBuilder {
+        const table = RATES_TABLES[kind];
+
+        const query = knex(table.tableName)
+            .join("warehouses", `${table.tableName}.warehouse_id`, "warehouses.id")
+            .join("tariff_periods", `${table.tableName}.tariff_period_id`, "tariff_periods.id")
+            .select(
+                `${table.tableName}.seller_id`,
+                "warehouses.id as warehouse_id",
+                "warehouses.geo_name",
+                "warehouses.warehouse_name",
+                "tariff_periods.id as tariff_period_id",
+                "tariff_periods.start_date",
+                "tariff_periods.end_date",
+                ...table.fields.map((field) => knex.raw(`${table.tableName}.${field}::float as ${field}`)),
+            );
+
+        if (filters.seller_id) query.where(`${table.tableName}.seller_id`, filters.seller_id);
+        if (filters.warehouse_id) query.where("warehouses.id", filters.warehouse_id);
+        if (filters.geo_name) query.where("warehouses.geo_name", filters.geo_name);
+        if (filters.warehouse_name) query.where("warehouses.warehouse_name", filters.warehouse_name);
+        where(query);
+
+        return query;
+    }
+}
+
+function toWarehouse(period: RatesPeriodRow): RatesWarehouse {
+    return {
+        seller_id: period.seller_id,
+        warehouse_id: period.warehouse_id,
+        geo_name: period.geo_name,
+        warehouse_name: period.warehouse_name,
+    };
+}
+
+function toRatesPeriod(period: RatesPeriodRow, table: RatesTable): RatesPeriod {
+    return {
+        tariff_period_id: period.tariff_period_id,
+        start_date: period.start_date,
+        end_date: period.end_date,
+        values: Object.fromEntries(table.fields.map((field) => [field, period[field] as number | null])),
+    };
+}
+
+function sortByWarehouse<T extends RatesWarehouse>(rows: T[]): T[] {
+    return rows.sort(
+        (a, b) =>
+            a.geo_name.localeCompare(b.geo_name) ||
+            a.warehouse_name.localeCompare(b.warehouse_name) ||
+            a.seller_id.localeCompare(b.seller_id),
+    );
+}
+
+/**
+ * Типы результатов
+ */
+type RatesPeriodRow = RatesWarehouse & {
+    tariff_period_id: string;
+    start_date: Date;
+    end_date: Date | null;
+    [field: string]: unknown;
+};
+
+export interface RatesWarehouse {
+    seller_id: string;
+    warehouse_id: string;
+    geo_name: string;
+    warehouse_name: string;
+}
+
+/**
+ * Период действия тарифов одного вида: end_date = null - период открыт до следующего изменения
+ */
+export interface RatesPeriod {
+    tariff_period_id: string;
+    start_date: Date;
+    end_date: Date | null;
+    values: Record<string, number | null>;
+}
+
+export interface RatesAsOfRow extends RatesWarehouse {
+    rates: Partial<Record<WarehouseRatesKind, RatesPeriod | null>>;
+}
+
+export interface WarehouseTimeline extends RatesWarehouse {
+    periods: Partial<Record<WarehouseRatesKind, RatesPeriod[]>>;
+}
+
+export interface TimelinePage {
+    data: WarehouseTimeline[];
+    /** Курсор следующей страницы, null - страница последняя */
+    next_cursor: string | null;
+}
@@ -0,0 +1,34 @@
+import knex from "#postgres/knex.js";
+
+/**
+ * Сервис для работы с кабинетами продавцов
+ */
+export class SellerService {
+    /**
+     * Кабинеты, участвующие в синхронизации
+     */
+    async getActiveSellers(): Promise<Seller[]> {
+        return knex("sellers")
+            .where("is_active", true)
+            .select("id", "name", "wb_token")
+            .orderBy("name");
+    }
+
+    /**
+     * Поиск кабинета по названию
+     */
+    async findSellerByName(name: string): Promise<Seller | undefined> {
+        return knex("sellers")
+            .where("name", name)
+            .first("id", "name", "wb_token");
+    }
+}
+
+/**
+ * Кабинет продавца
+ */
+export interface Seller {
+    id: string;
+    name: string;
+    wb_token: string;
+}
@@ -0,0 +1,169 @@
+import knex from "#postgres/knex.js";
+import { Logger } from "../utils/Logger.js";
+import { AcceptanceProcessResult, ProcessResult } from "./DataProcessor.js";
+import { SpreadsheetOutcome } from "./GoogleSheetsService.js";
+import { Paginated, Pagination } from "./RatesQueryService.js";
+
+/**
+ * Журнал запусков задач по кабинетам: синхронизации тарифов и публикации в Google Sheets (таблица sync_runs)
+ */
+export class SyncRunService {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger("SyncRunService");
+    }
+
+    /**
+     * Запись о начале запуска, возвращает его ID
+     */
+    async startRun(job: string, trigger: SyncTrigger): Promise<string> {
+        const [{ id }] = await knex("sync_runs").insert({ job, status: "running", trigger }).returning("id");
+        return id;
+    }
+
+    /**
+     * Запись о пропущенном запуске: предыдущий запуск еще не завершился
+     */
+    async recordSkippedRun(job: string, trigger: SyncTrigger, reason: string): Promise<string> {
+        const [{ id }] = await knex("sync_runs")
+            .insert({ job, status: "skipped", trigger, finished_at: knex.fn.now(), error: reason })
+            .returning("id");
+        return id;
+    }
+
+    /**
+     * Завершение запуска: failed - ошибка всего запуска, partial - ошибка части кабинетов
+     */
+    async finishRun(id: string, sellers: SellerSyncResult[], error?: string): Promise<void> {
+        const failedSellersCount = sellers.filter((seller) => seller.status === "failed").length;
+
+        await knex("sync_runs")
+            .where("id", id)
+            .update({
+                finished_at: knex.fn.now(),
+                status: error ? "failed" : failedSellersCount > 0 ? "partial" : "succeeded",
+                sellers_count: sellers.length,
+                failed_sellers_count: failedSellersCount,
+                sellers: JSON.stringify(sellers),
+                error: error ?? null,
+            });
+    }
+
+    /**
+     * Последние запуски, новые первыми
+     */
+    async getRuns(filters: SyncRunsFilters, page: Pagination): Promise<Paginated<SyncRunRow>> {
+        const query = knex("sync_runs");
+
+        if (filters.job) query.where("job", filters.job);
+        if (filters.status) query.where("status", filters.status);
+        if (filters.sellerId) query.whereRaw("sellers @> ?::jsonb", [JSON.stringify([{ seller_id: filters.sellerId }])]);
+        if (filters.spreadsheetId) {
+            query.whereRaw("sellers @> ?::jsonb", [JSON.stringify([{ spreadsheets: [{ spreadsheet_id: filters.spreadsheetId }] }])]);
+        }
+
+        const countQuery = query.clone().count<{ total: string }[]>("* as total");
+
+        const rows = query
+            .select("id", "job", "trigger", "started_at", "finished_at", "status", "sellers_count", "failed_sellers_count", "sellers", "error")
+            .orderBy("started_at", "desc")
+            .limit(page.limit)
+            .offset(page.offset);
+
+        const [data, [{ total }]] = await Promise.all([rows, countQuery]);
+        this.logger.info(`Retrieved ${data.length} sync runs from database`);
+
+        return {
+            data,
+            pagination: {
+                total: Number(total),
+                limit: page.limit,
+                offset: page.offset,
+            },
+        };
+    }
+}
+
+/**
+ * Количество сохраненных данных из ProcessResult
+ */
+export function toSyncCounts(result: ProcessResult): SyncCounts {
+    return {
+        tariff_periods_count: result.tariffPeriodsCount,
+        closed_periods_count: result.closedPeriodsCount,
+        missing_owners_count: result.missingOwnersCount,
+        owners_count: result.ownersCount,
+        rates_count: result.ratesCount,
+        quarantined_count: result.quarantinedCount,
+        changes_count: result.changes.length,
+    };
+}
+
+/**
+ * Количество сохраненных коэффициентов приемки: полученные слоты считаются владельцами,
+ * изменившиеся слоты - сохраненными строками и изменениями
+ */
+export function toAcceptanceSyncCounts(result: AcceptanceProcessResult): SyncCounts {
+    return {
+        tariff_periods_count: 0,
+        closed_periods_count: 0,
+        missing_owners_count: 0,
+        owners_count: result.receivedCount,
+        rates_count: result.changedCount,
+        quarantined_count: result.quarantinedCount,
+        changes_count: result.changedCount,
+    };
+}
+
+/**
+ * Типы запросов и результатов
+ */
+export const SYNC_RUN_STATUSES = ["running", "succeeded", "partial", "failed", "skipped"] as const;
+
+export type SyncRunStatus = (typeof SYNC_RUN_STATUSES)[number];
+
+/**
+ * Источник запуска: расписание, команда в консоли или HTTP-запрос
+ */
+export type SyncTrigger = "cron" | "cli" | "http";
+
+export interface SyncRunsFilters {
+    job?: string;
+    status?: SyncRunStatus;
+    sellerId?: string;
+    spreadsheetId?: string;
+}
+
+export interface SyncCounts {
+    tariff_periods_count: number;
+    closed_periods_count: number;
+    missing_owners_count: number;
+    owners_count: number;
+    rates_count: number;
+    quarantined_count: number;
+    changes_count: number;
+}
+
+export interface SellerSyncResult {
+    seller_id: string;
+    seller_name: string;
+    status: "succeeded" | "failed";
+    /** Ключ - вид тарифов: box, pallet, return, commission или acceptance (коэффициенты приемки) */
+    counts: Record<string, SyncCounts>;
+    spreadsheets: SpreadsheetOutcome[];
+    error?: string;
+}
+
+export interface SyncRunRow {
+    id: string;
+    job: string;
+    trigger: SyncTrigger;
+    started_at: Date;
+    finished_at: Date | null;
+    status: SyncRunStatus;
+    sellers_count: number;
+    failed_sellers_count: number;
+    sellers: SellerSyncResult[];
+    error: string | null;
+}
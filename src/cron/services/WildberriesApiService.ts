@@ -1,51 +1,135 @@
+import env from "#config/env/env.js";
 import { Logger } from "../utils/Logger.js";
+import { HttpClient } from "./http/HttpClient.js";
+import { WB_API_HOSTS, WB_ENDPOINTS } from "./wbEndpoints.js";
+
+/**
+ * Встроенные моковые данные вместо запросов к WB API: только при явном WB_API_MODE=mock (по умолчанию live)
+ */
+export function isWbMockMode(): boolean {
+    return env.WB_API_MODE === "mock";
+}
 
 /**
  * Сервис для работы с Wildberries API
  */
 export class WildberriesApiService {
-    private readonly token: string;
     private readonly logger: Logger;
-    private readonly baseUrl = "https://common-api.wildberries.ru";
+    private readonly commonApi: HttpClient;
+    private readonly suppliesApi: HttpClient;
+    private readonly useMockData: boolean;
+    private readonly signal: AbortSignal | undefined;
 
-    constructor(token: string) {
-        this.token = token;
+    /**
+     * signal - таймаут задачи: прерывает запрос к WB API, который выполняется в этот момент
+     */
+    constructor(token: string, signal?: AbortSignal) {
         this.logger = new Logger("WildberriesApiService");
+        this.signal = signal;
+
+        this.useMockData = isWbMockMode();
+
+        const headers = { Authorization: `Bearer ${token}` };
+        const options = { timeoutMs: env.WB_API_TIMEOUT_MS, maxRetries: env.WB_API_MAX_RETRIES };
+        this.commonApi = new HttpClient("wb-common-api", env.WB_API_BASE_URL ?? WB_API_HOSTS.common, headers, options);
+        this.suppliesApi = new HttpClient("wb-supplies-api", env.WB_API_BASE_URL ?? WB_API_HOSTS.supplies, headers, options);
     }
 
     /**
-     * Получение тарифов коробов для складов
+     * Получение тарифов коробов для складов на дату (YYYY-MM-DD, по умолчанию - сегодня)
      */
-    async getWarehouseBoxRates(): Promise<WbWarehouseBoxRatesResponse> {
+    async getWarehouseBoxRates(date?: string): Promise<WbWarehouseBoxRatesResponse> {
         this.logger.info("Fetching warehouse box rates from Wildberries API");
 
-        const NODE_ENV = process.env.NODE_ENV ?? "development";
-        
-        if (NODE_ENV === "development") {
-            this.logger.warn("Using mock data - set NODE_ENV=production for live API");
+        if (this.useMockData) {
+            this.logger.warn("Using built-in mock data - set WB_API_MODE=live to call WB API");
             return this.getMockData();
         }
 
-        try {
-            const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-            const url = `${this.baseUrl}/api/v1/tariffs/box?date=${today}`;
-            
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.token}`
-                }
-            });
+        const data = await this.fetchTariffs<WbWarehouseBoxRatesResponse>(WB_ENDPOINTS.box.path, date);
+        this.logger.info(`Received ${data.warehouseList?.length || 0} warehouses from WB API`);
+        return data;
+    }
 
-            if (!response.ok) {
-                throw new Error(`WB API error: ${response.status} ${response.statusText}`);
-            }
+    /**
+     * Получение тарифов монопаллет для складов
+     */
+    async getWarehousePalletRates(): Promise<WbWarehousePalletRatesResponse> {
+        this.logger.info("Fetching warehouse pallet rates from Wildberries API");
 
-            const responseData = await response.json();
-            const data = responseData.response.data as WbWarehouseBoxRatesResponse;
-            this.logger.info(`Received ${data.warehouseList?.length || 0} warehouses from WB API`);
-            return data;
+        if (this.useMockData) {
+            this.logger.warn("Using built-in mock data - set WB_API_MODE=live to call WB API");
+            return this.getPalletMockData();
+        }
+
+        const data = await this.fetchTariffs<WbWarehousePalletRatesResponse>(WB_ENDPOINTS.pallet.path);
+        this.logger.info(`Received ${data.warehouseList?.length || 0} pallet warehouses from WB API`);
+        return data;
+    }
+
+    /**
+     * Получение тарифов на возврат товаров продавцу
+     */
+    async getWarehouseReturnRates(): Promise<WbWarehouseReturnRatesResponse> {
+        this.logger.info("Fetching warehouse return rates from Wildberries API");
+
+        if (this.useMockData) {
+            this.logger.warn("Using built-in mock data - set WB_API_MODE=live to call WB API");
+            return this.getReturnMockData();
+        }
+
+        const data = await this.fetchTariffs<WbWarehouseReturnRatesResponse>(WB_ENDPOINTS.return.path);
+        this.logger.info(`Received ${data.warehouseList?.length || 0} return warehouses from WB API`);
+        return data;
+    }
+
+    /**
+     * Получение комиссий WB по предметам (категориям товаров)
+     */
+    async getSubjectCommissions(): Promise<WbSubjectCommissionsResponse> {
+        this.logger.info("Fetching subject commissions from Wildberries API");
+
+        if (this.useMockData) {
+            this.logger.warn("Using built-in mock data - set WB_API_MODE=live to call WB API");
+            return this.getCommissionMockData();
+        }
 
+        const data = await this.fetchJson<WbSubjectCommissionsResponse>(WB_ENDPOINTS.commission.path, { locale: "ru" });
+        this.logger.info(`Received ${data.report?.length || 0} subject commissions from WB API`);
+        return data;
+    }
+
+    /**
+     * Получение коэффициентов приемки по складам на ближайшие дни
+     */
+    async getAcceptanceCoefficients(): Promise<WbAcceptanceCoefficient[]> {
+        this.logger.info("Fetching acceptance coefficients from Wildberries API");
+
+        if (this.useMockData) {
+            this.logger.warn("Using built-in mock data - set WB_API_MODE=live to call WB API");
+            return this.getAcceptanceMockData();
+        }
+
+        const data = await this.fetchJson<WbAcceptanceCoefficient[]>(WB_ENDPOINTS.acceptance.path, {}, this.suppliesApi);
+        this.logger.info(`Received ${data?.length || 0} acceptance coefficients from WB API`);
+        return data;
+    }
+
+    /**
+     * Запрос тарифов на дату (по умолчанию - на текущую)
+     */
+    private async fetchTariffs<T>(path: string, date?: string): Promise<T> {
+        const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+        const responseData = await this.fetchJson<{ response: { data: T } }>(path, { date: date ?? today });
+        return responseData.response.data;
+    }
+
+    /**
+     * GET-запрос к WB API (повторы, лимиты запросов и предохранитель - в HttpClient)
+     */
+    private async fetchJson<T>(path: string, params: Record<string, string>, api: HttpClient = this.commonApi): Promise<T> {
+        try {
+            return await api.getJson<T>(path, params, this.signal);
         } catch (error) {
             this.logger.error("Error fetching data from Wildberries API:", error);
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -58,8 +142,8 @@ export class WildberriesApiService {
      */
     private getMockData(): WbWarehouseBoxRatesResponse {
         return {
-            dtNextBox: "2025-10-01",
-            dtTillMax: "2025-09-30",
+            dtNextBox: mockDate(1),
+            dtTillMax: mockDate(30),
             warehouseList: [
                 {
                     boxDeliveryBase: "100.50",
@@ -90,6 +174,157 @@ export class WildberriesApiService {
             ]
         };
     }
+
+    /**
+     * Заглушка с моковыми данными тарифов монопаллет (для разработки)
+     */
+    private getPalletMockData(): WbWarehousePalletRatesResponse {
+        return {
+            dtNextPallet: mockDate(1),
+            dtTillMax: mockDate(30),
+            warehouseList: [
+                {
+                    palletDeliveryExpr: "170",
+                    palletDeliveryValueBase: "51",
+                    palletDeliveryValueLiter: "11,9",
+                    palletStorageExpr: "155",
+                    palletStorageValueExpr: "35,65",
+                    geoName: "Москва",
+                    warehouseName: "Коледино"
+                },
+                {
+                    palletDeliveryExpr: "135",
+                    palletDeliveryValueBase: "40,5",
+                    palletDeliveryValueLiter: "9,45",
+                    palletStorageExpr: "120",
+                    palletStorageValueExpr: "27,6",
+                    geoName: "Санкт-Петербург",
+                    warehouseName: "Шушары"
+                }
+            ]
+        };
+    }
+
+    /**
+     * Заглушка с моковыми данными тарифов на возврат (для разработки)
+     */
+    private getReturnMockData(): WbWarehouseReturnRatesResponse {
+        return {
+            dtNextDeliveryDumpKgt: mockDate(1),
+            dtNextDeliveryDumpSrg: mockDate(1),
+            dtNextDeliveryDumpSup: mockDate(1),
+            warehouseList: [
+                {
+                    deliveryDumpKgtOfficeBase: "1 039",
+                    deliveryDumpKgtOfficeLiter: "9,1",
+                    deliveryDumpKgtReturnExpr: "1 050",
+                    deliveryDumpSrgOfficeExpr: "350",
+                    deliveryDumpSrgReturnExpr: "350",
+                    deliveryDumpSupCourierBase: "280",
+                    deliveryDumpSupCourierLiter: "7",
+                    deliveryDumpSupOfficeBase: "50",
+                    deliveryDumpSupOfficeLiter: "2,5",
+                    deliveryDumpSupReturnExpr: "50",
+                    warehouseName: "Коледино"
+                },
+                {
+                    deliveryDumpKgtOfficeBase: "1 039",
+                    deliveryDumpKgtOfficeLiter: "9,1",
+                    deliveryDumpKgtReturnExpr: "1 050",
+                    deliveryDumpSrgOfficeExpr: "350",
+                    deliveryDumpSrgReturnExpr: "350",
+                    deliveryDumpSupCourierBase: "280",
+                    deliveryDumpSupCourierLiter: "7",
+                    deliveryDumpSupOfficeBase: "50",
+                    deliveryDumpSupOfficeLiter: "2,5",
+                    deliveryDumpSupReturnExpr: "50",
+                    warehouseName: "Шушары"
+                }
+            ]
+        };
+    }
+
+    /**
+     * Заглушка с моковыми данными комиссий (для разработки)
+     */
+    private getCommissionMockData(): WbSubjectCommissionsResponse {
+        return {
+            report: [
+                {
+                    kgvpBooking: 14.5,
+                    kgvpMarketplace: 15.5,
+                    kgvpPickup: 14.5,
+                    kgvpSupplier: 12.5,
+                    kgvpSupplierExpress: 3,
+                    paidStorageKgvp: 15.5,
+                    parentID: 657,
+                    parentName: "Бытовая техника",
+                    subjectID: 6461,
+                    subjectName: "Оборудование зубоврачебное"
+                },
+                {
+                    kgvpBooking: 20,
+                    kgvpMarketplace: 21,
+                    kgvpPickup: 20,
+                    kgvpSupplier: 18,
+                    kgvpSupplierExpress: 3,
+                    paidStorageKgvp: 21,
+                    parentID: 1,
+                    parentName: "Женщинам",
+                    subjectID: 68,
+                    subjectName: "Платья"
+                }
+            ]
+        };
+    }
+
+    /**
+     * Заглушка с моковыми коэффициентами приемки на 14 дней вперед (для разработки)
+     */
+    private getAcceptanceMockData(): WbAcceptanceCoefficient[] {
+        const warehouses = [
+            { warehouseID: 507, warehouseName: "Коледино" },
+            { warehouseID: 117986, warehouseName: "Казань" },
+        ];
+        const boxTypes = [
+            { boxTypeID: 2, boxTypeName: "Короба" },
+            { boxTypeID: 5, boxTypeName: "Монопаллеты" },
+        ];
+        const today = new Date();
+        today.setUTCHours(0, 0, 0, 0);
+
+        const result: WbAcceptanceCoefficient[] = [];
+        for (let day = 0; day < 14; day++) {
+            const date = new Date(today.getTime() + day * 24 * 60 * 60 * 1000).toISOString();
+            for (const warehouse of warehouses) {
+                for (const boxType of boxTypes) {
+                    const coefficient = [-1, 0, 1, 2, 5][(day + warehouse.warehouseID + boxType.boxTypeID) % 5];
+                    result.push({
+                        date,
+                        coefficient,
+                        ...warehouse,
+                        allowUnload: coefficient >= 0,
+                        ...boxType,
+                        storageCoef: "100",
+                        deliveryCoef: "125",
+                        deliveryBaseLiter: "57,5",
+                        deliveryAdditionalLiter: "17,5",
+                        storageBaseLiter: "0,1",
+                        storageAdditionalLiter: "0,1",
+                        isSortingCenter: false
+                    });
+                }
+            }
+        }
+        return result;
+    }
+}
+
+/**
+ * Дата моковых данных (YYYY-MM-DD) через days дней от текущей: сроки тарифов не уходят в прошлое
+ */
+function mockDate(days: number): string {
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
 }
 
 /**
@@ -113,4 +348,75 @@ export interface WbWarehouseBoxRate {
     boxStorageLiter: string;                   // Хранение в день, дополнительный литр, ₽
     geoName: string;                           // Страна, для РФ — округ
     warehouseName: string;                     // Название склада
-}
\ No newline at end of file
+}
+
+export interface WbWarehousePalletRatesResponse {
+    dtNextPallet: string;        // Дата начала следующего тарифа
+    dtTillMax: string;           // Дата окончания последнего установленного тарифа
+    warehouseList: WbWarehousePalletRate[];
+}
+
+export interface WbWarehousePalletRate {
+    palletDeliveryExpr: string;                 // Коэффициент Логистика, %
+    palletDeliveryValueBase: string;            // Логистика, первый литр, ₽
+    palletDeliveryValueLiter: string;           // Логистика, дополнительный литр, ₽
+    palletStorageExpr: string;                  // Коэффициент Хранение, %
+    palletStorageValueExpr: string;             // Хранение, ₽ за монопаллету в день
+    geoName?: string;                           // Страна, для РФ — округ (может отсутствовать)
+    warehouseName: string;                      // Название склада
+}
+
+export interface WbWarehouseReturnRatesResponse {
+    dtNextDeliveryDumpKgt: string;   // Дата начала следующего тарифа на возврат КГТ
+    dtNextDeliveryDumpSrg: string;   // Дата начала следующего тарифа на возврат СГТ
+    dtNextDeliveryDumpSup: string;   // Дата начала следующего тарифа на возврат остальных товаров
+    warehouseList: WbWarehouseReturnRate[];
+}
+
+export interface WbWarehouseReturnRate {
+    deliveryDumpKgtOfficeBase: string;          // Возврат КГТ на ПВЗ, первый литр, ₽
+    deliveryDumpKgtOfficeLiter: string;         // Возврат КГТ на ПВЗ, дополнительный литр, ₽
+    deliveryDumpKgtReturnExpr: string;          // Возврат бракованного КГТ продавцу, ₽
+    deliveryDumpSrgOfficeExpr: string;          // Возврат СГТ на ПВЗ, ₽
+    deliveryDumpSrgReturnExpr: string;          // Возврат бракованного СГТ продавцу, ₽
+    deliveryDumpSupCourierBase: string;         // Возврат курьером, первый литр, ₽
+    deliveryDumpSupCourierLiter: string;        // Возврат курьером, дополнительный литр, ₽
+    deliveryDumpSupOfficeBase: string;          // Возврат на ПВЗ, первый литр, ₽
+    deliveryDumpSupOfficeLiter: string;         // Возврат на ПВЗ, дополнительный литр, ₽
+    deliveryDumpSupReturnExpr: string;          // Возврат бракованного товара продавцу, ₽
+    warehouseName: string;                      // Название склада
+}
+
+export interface WbSubjectCommissionsResponse {
+    report: WbSubjectCommission[];
+}
+
+export interface WbSubjectCommission {
+    kgvpBooking: number;                        // Бронирование, %
+    kgvpMarketplace: number;                    // Маркетплейс (FBS), %
+    kgvpPickup: number;                         // Самовывоз из магазина продавца (C&C), %
+    kgvpSupplier: number;                       // Витрина (DBS), %
+    kgvpSupplierExpress: number;                // Витрина экспресс (EDBS), %
+    paidStorageKgvp: number;                    // Склад WB (FBO), %
+    parentID: number;                           // ID родительской категории
+    parentName: string;                         // Название родительской категории
+    subjectID: number;                          // ID предмета
+    subjectName: string;                        // Название предмета
+}
+
+export interface WbAcceptanceCoefficient {
+    date: string;                               // Дата начала действия коэффициента
+    coefficient: number;                        // Коэффициент приемки: -1 - приемка недоступна, 0 - бесплатно
+    warehouseID: number;                        // ID склада
+    warehouseName: string;                      // Название склада
+    allowUnload: boolean;                       // Доступна ли отгрузка на склад
+    boxTypeName: string;                        // Тип поставки: Короба, Монопаллеты, Суперсейф, QR-поставка с коробами
+    boxTypeID?: number;                         // ID типа поставки (нет для QR-поставки)
+    storageCoef: string | null;                 // Коэффициент хранения, %
+    deliveryCoef: string | null;                // Коэффициент логистики, %
+    deliveryBaseLiter: string | null;           // Логистика, первый литр, ₽
+    deliveryAdditionalLiter: string | null;     // Логистика, дополнительный литр, ₽
+    storageBaseLiter: string | null;            // Хранение, первый литр (или монопаллета), ₽
+    storageAdditionalLiter: string | null;      // Хранение, дополнительный литр, ₽
+    isSortingCenter: boolean;                   // Является ли склад сортировочным центром
+}
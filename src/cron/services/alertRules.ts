@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { BOX_RATE_FIELDS } from "./rateTables.js";
+
+/**
+ * Условия срабатывания: порог значения поля или изменение поля в процентах при смене периода
+ */
+export const ALERT_CONDITIONS = ["above", "below", "rise_percent", "fall_percent"] as const;
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+/**
+ * Правило уведомлений (строка таблицы alert_rules)
+ */
+export const alertRuleSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    field: z.enum(BOX_RATE_FIELDS),
+    condition: z.enum(ALERT_CONDITIONS),
+    value: z.coerce.number(),
+    geo_name: z.string().nullable(),
+    warehouse_name: z.string().nullable(),
+    webhook_url: z.string().url(),
+    cooldown_minutes: z.number().int().nonnegative(),
+});
+
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+export const ALERT_RULE_COLUMNS = [
+    "id",
+    "name",
+    "field",
+    "condition",
+    "value",
+    "geo_name",
+    "warehouse_name",
+    "webhook_url",
+    "cooldown_minutes",
+] as const;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+const positiveNumber = z.coerce.number().positive();
+
+const dateSchema = z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+    .transform((value) => new Date(value));
+
+/**
+ * Товар и срок хранения: объем задается в литрах или габаритами в сантиметрах
+ */
+const productSchema = z.object({
+    seller_id: z.string().uuid().optional(),
+    volume_liters: positiveNumber.optional(),
+    length_cm: positiveNumber.optional(),
+    width_cm: positiveNumber.optional(),
+    height_cm: positiveNumber.optional(),
+    quantity: z.coerce.number().int().min(1).default(1),
+    storage_days: z.coerce.number().int().min(0),
+    at: dateSchema.optional(),
+});
+
+const hasVolume = (input: z.infer<typeof productSchema>) =>
+    Boolean(input.volume_liters || (input.length_cm && input.width_cm && input.height_cm));
+const volumeMessage = { message: "Either volume_liters or length_cm, width_cm and height_cm are required" };
+
+/**
+ * Параметры расчета стоимости логистики и хранения товара на складе
+ */
+export const costCalculationInputSchema = productSchema
+    .extend({
+        warehouse_id: z.string().uuid().optional(),
+        warehouse_name: z.string().min(1).optional(),
+    })
+    .refine((input) => input.warehouse_id || input.warehouse_name, {
+        message: "Either warehouse_id or warehouse_name is required",
+    })
+    .refine(hasVolume, volumeMessage);
+
+/**
+ * Параметры рейтинга складов; регионы - списком через запятую или массивом
+ */
+export const warehouseRankingInputSchema = productSchema
+    .extend({
+        geo_names: z
+            .union([z.string(), z.array(z.string())])
+            .transform((value) => (Array.isArray(value) ? value : value.split(",")).map((name) => name.trim()).filter(Boolean))
+            .optional(),
+    })
+    .refine(hasVolume, volumeMessage);
+
+export type ProductVolume = Pick<z.infer<typeof productSchema>, "volume_liters" | "length_cm" | "width_cm" | "height_cm">;
+export type CostCalculationInput = z.infer<typeof costCalculationInputSchema>;
+export type WarehouseRankingInput = z.infer<typeof warehouseRankingInputSchema>;
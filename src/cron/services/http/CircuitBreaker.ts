@@ -0,0 +1,65 @@
+/**
+ * Предохранитель: после failureThreshold неудачных запросов подряд размыкается на resetTimeoutMs,
+ * затем пропускает один пробный запрос (half-open) - при успехе замыкается, при ошибке снова размыкается
+ */
+export class CircuitBreaker {
+    readonly name: string;
+    private readonly failureThreshold: number;
+    private readonly resetTimeoutMs: number;
+
+    private state: CircuitState = "closed";
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInProgress = false;
+
+    constructor(name: string, failureThreshold: number, resetTimeoutMs: number) {
+        this.name = name;
+        this.failureThreshold = failureThreshold;
+        this.resetTimeoutMs = resetTimeoutMs;
+    }
+
+    /**
+     * Можно ли отправить запрос (в состоянии half-open - только один пробный)
+     */
+    tryAcquire(): boolean {
+        if (this.state === "open") {
+            if (Date.now() - this.openedAt < this.resetTimeoutMs) return false;
+            this.state = "half-open";
+            this.trialInProgress = false;
+        }
+        if (this.state === "half-open") {
+            if (this.trialInProgress) return false;
+            this.trialInProgress = true;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.state = "closed";
+        this.consecutiveFailures = 0;
+        this.trialInProgress = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInProgress = false;
+
+        if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = "open";
+            this.openedAt = Date.now();
+        }
+    }
+
+    getState(): CircuitState {
+        return this.state;
+    }
+
+    /**
+     * Через сколько мс предохранитель пропустит пробный запрос
+     */
+    getRetryInMs(): number {
+        return this.state === "open" ? Math.max(0, this.resetTimeoutMs - (Date.now() - this.openedAt)) : 0;
+    }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
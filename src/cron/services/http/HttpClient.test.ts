@@ -0,0 +1,232 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createWbStubApp } from "#wbStub/server.js";
+import { HttpClient, HttpClientOptions } from "./HttpClient.js";
+import { CircuitBreaker } from "./CircuitBreaker.js";
+import { CircuitOpenError, HttpError } from "./errors.js";
+import { sleep } from "../../utils/sleep.js";
+
+// Паузы между попытками не выдерживаются, а запоминаются
+jest.mock("../../utils/sleep.js", () => ({ sleep: jest.fn(() => Promise.resolve()) }));
+const sleepMock = sleep as jest.MockedFunction<typeof sleep>;
+
+const BOX_PATH = "/api/v1/tariffs/box";
+const AUTH = { Authorization: "test-token" };
+
+let server: Server;
+let baseUrl: string;
+let clientsCount = 0;
+
+beforeAll(async () => {
+    const app = createWbStubApp({ fixturesDir: "./fixtures/wb", scenario: "default", latencyMs: 0 });
+    server = await new Promise<Server>((resolve) => {
+        const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    sleepMock.mockClear();
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await setFaults([]);
+});
+
+/**
+ * Клиент с уникальным именем: предохранитель и лимит запросов не переходят между тестами
+ */
+function createClient(options: Partial<HttpClientOptions> = {}, headers: Record<string, string> = AUTH): HttpClient {
+    return new HttpClient(`test-${++clientsCount}`, baseUrl, headers, { baseDelayMs: 10, maxDelayMs: 40, ...options });
+}
+
+async function setFaults(faults: { status: number; headers?: Record<string, string> }[]): Promise<void> {
+    const response = await fetch(`${baseUrl}/__stub/faults`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(faults),
+    });
+    expect(response.ok).toBe(true);
+}
+
+async function getRequestsCount(): Promise<number> {
+    const response = await fetch(`${baseUrl}/__stub/requests`);
+    return ((await response.json()) as { requests: number }).requests;
+}
+
+/**
+ * Паузы, которые клиент выдержал бы между попытками
+ */
+function getSleeps(): number[] {
+    return sleepMock.mock.calls.map(([ms]) => ms);
+}
+
+describe("HttpClient", () => {
+    it("waits for Retry-After on 429 and retries", async () => {
+        await setFaults([{ status: 429, headers: { "Retry-After": "1" } }]);
+        const requestsBefore = await getRequestsCount();
+
+        const body = await createClient().getJson<{ response: unknown }>(BOX_PATH, { date: "2026-10-19" });
+
+        expect(body.response).toBeDefined();
+        expect(getSleeps()).toEqual([1_000]);
+        expect((await getRequestsCount()) - requestsBefore).toBe(2);
+    });
+
+    it("accepts Retry-After as an HTTP date", async () => {
+        await setFaults([{ status: 429, headers: { "Retry-After": new Date(Date.now() + 5_000).toUTCString() } }]);
+
+        await createClient().getJson(BOX_PATH);
+
+        // HTTP-дата с точностью до секунды
+        const [delay] = getSleeps();
+        expect(delay).toBeGreaterThan(3_000);
+        expect(delay).toBeLessThanOrEqual(5_000);
+    });
+
+    it("uses X-Ratelimit-Retry when Retry-After is missing and caps it with maxRetryAfterMs", async () => {
+        await setFaults([{ status: 429, headers: { "X-Ratelimit-Retry": "600" } }]);
+
+        await createClient({ maxRetryAfterMs: 2_000 }).getJson(BOX_PATH);
+
+        expect(getSleeps()).toEqual([2_000]);
+    });
+
+    it("waits for X-Ratelimit-Reset before the next request when the limit is exhausted", async () => {
+        await setFaults([{ status: 429, headers: { "X-Ratelimit-Remaining": "0", "X-Ratelimit-Reset": "3" } }]);
+
+        await createClient().getJson(BOX_PATH);
+
+        // Пауза повтора по X-Ratelimit-Reset, затем ожидание сброса лимита перед следующей попыткой
+        const [retryDelay, rateLimitWait] = getSleeps();
+        expect(retryDelay).toBe(3_000);
+        expect(rateLimitWait).toBeGreaterThan(2_900);
+        expect(rateLimitWait).toBeLessThanOrEqual(3_000);
+    });
+
+    it("retries 5xx with exponential backoff and full jitter bounded by maxDelayMs", async () => {
+        await setFaults([{ status: 500 }, { status: 502 }, { status: 503 }, { status: 504 }]);
+        jest.spyOn(Math, "random").mockReturnValue(0.999);
+
+        await createClient({ baseDelayMs: 100, maxDelayMs: 300, maxRetries: 4 }).getJson(BOX_PATH);
+
+        // Верхние границы: 100, 200, 400 -> 300 (maxDelayMs), 800 -> 300
+        expect(getSleeps()).toEqual([100, 200, 300, 300]);
+    });
+
+    it("picks jitter from zero up to the backoff cap", async () => {
+        await setFaults([{ status: 500 }, { status: 500 }]);
+        jest.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(0.5);
+
+        await createClient({ baseDelayMs: 100, maxDelayMs: 1_000 }).getJson(BOX_PATH);
+
+        expect(getSleeps()).toEqual([0, 100]);
+    });
+
+    it("gives up with HttpError after maxRetries", async () => {
+        await setFaults([{ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }]);
+        const requestsBefore = await getRequestsCount();
+
+        const request = createClient({ maxRetries: 2, failureThreshold: 10 }).getJson(BOX_PATH);
+
+        await expect(request).rejects.toBeInstanceOf(HttpError);
+        await expect(request).rejects.toMatchObject({ status: 503 });
+        expect((await getRequestsCount()) - requestsBefore).toBe(3);
+    });
+
+    it("does not retry client errors", async () => {
+        const requestsBefore = await getRequestsCount();
+
+        const request = createClient({}, {}).getJson(BOX_PATH);
+
+        await expect(request).rejects.toMatchObject({ name: "HttpError", status: 401 });
+        expect((await getRequestsCount()) - requestsBefore).toBe(1);
+    });
+
+    it("opens the circuit after consecutive failures, then closes it after a successful trial request", async () => {
+        await setFaults([{ status: 500 }, { status: 500 }]);
+        const client = createClient({ maxRetries: 0, failureThreshold: 2, resetTimeoutMs: 200 });
+
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(HttpError);
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(HttpError);
+
+        // Предохранитель разомкнут: запрос не доходит до заглушки
+        const requestsBefore = await getRequestsCount();
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(await getRequestsCount()).toBe(requestsBefore);
+
+        // После resetTimeoutMs пробный запрос проходит и замыкает предохранитель
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        await expect(client.getJson(BOX_PATH)).resolves.toBeDefined();
+        await expect(client.getJson(BOX_PATH)).resolves.toBeDefined();
+    });
+
+    it("reopens the circuit when the trial request fails", async () => {
+        await setFaults([{ status: 500 }, { status: 500 }, { status: 500 }]);
+        const client = createClient({ maxRetries: 0, failureThreshold: 2, resetTimeoutMs: 200 });
+
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(HttpError);
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(HttpError);
+        await new Promise((resolve) => setTimeout(resolve, 250));
+
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(HttpError);
+        await expect(client.getJson(BOX_PATH)).rejects.toBeInstanceOf(CircuitOpenError);
+    });
+
+    it("does not count 429 as a circuit failure", async () => {
+        await setFaults([{ status: 429, headers: { "Retry-After": "0" } }, { status: 429, headers: { "Retry-After": "0" } }]);
+        const client = createClient({ maxRetries: 0, failureThreshold: 1 });
+
+        await expect(client.getJson(BOX_PATH)).rejects.toMatchObject({ status: 429 });
+        await expect(client.getJson(BOX_PATH)).rejects.toMatchObject({ status: 429 });
+        await expect(client.getJson(BOX_PATH)).resolves.toBeDefined();
+    });
+
+    it("aborts the in-flight request with the signal reason and does not retry it", async () => {
+        const slowServer = await new Promise<Server>((resolve) => {
+            const listening = createWbStubApp({ fixturesDir: "./fixtures/wb", scenario: "default", latencyMs: 5_000 }).listen(0, () => resolve(listening));
+        });
+        const slowClient = new HttpClient(`test-${++clientsCount}`, `http://localhost:${(slowServer.address() as AddressInfo).port}`, AUTH, { failureThreshold: 1 });
+        const controller = new AbortController();
+        const reason = new Error("Job sync-rates timed out after 50 ms");
+
+        try {
+            const startedAt = Date.now();
+            setTimeout(() => controller.abort(reason), 50);
+
+            await expect(slowClient.getJson(BOX_PATH, {}, controller.signal)).rejects.toBe(reason);
+            expect(Date.now() - startedAt).toBeLessThan(2_000);
+            expect(getSleeps()).toEqual([]);
+
+            // Прерывание - не отказ API: предохранитель не размыкается, а уже прерванный signal не отправляет запрос
+            await expect(slowClient.getJson(BOX_PATH, {}, controller.signal)).rejects.toBe(reason);
+        } finally {
+            slowServer.closeAllConnections();
+            await new Promise((resolve) => slowServer.close(resolve));
+        }
+    });
+});
+
+describe("CircuitBreaker", () => {
+    it("lets a single trial request through in the half-open state", async () => {
+        const circuit = new CircuitBreaker("trial", 1, 50);
+        circuit.recordFailure();
+        expect(circuit.getState()).toBe("open");
+        expect(circuit.tryAcquire()).toBe(false);
+        expect(circuit.getRetryInMs()).toBeGreaterThan(0);
+
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        expect(circuit.tryAcquire()).toBe(true);
+        expect(circuit.getState()).toBe("half-open");
+        expect(circuit.tryAcquire()).toBe(false);
+
+        circuit.recordSuccess();
+        expect(circuit.getState()).toBe("closed");
+        expect(circuit.tryAcquire()).toBe(true);
+    });
+});
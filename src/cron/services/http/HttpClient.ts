@@ -0,0 +1,208 @@
+import { Logger } from "../../utils/Logger.js";
+import { httpClientRequestDurationSeconds, httpClientResponsesTotal } from "../../utils/metrics.js";
+import { sleep } from "../../utils/sleep.js";
+import { CircuitBreaker } from "./CircuitBreaker.js";
+import { CircuitOpenError, HttpError } from "./errors.js";
+
+const DEFAULT_OPTIONS: HttpClientOptions = {
+    timeoutMs: 30_000,
+    maxRetries: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000,
+    maxRetryAfterMs: 120_000,
+    failureThreshold: 5,
+    resetTimeoutMs: 60_000,
+};
+
+/**
+ * Состояние, общее для всех клиентов одного API (предохранитель и лимит запросов):
+ * синхронизация создает отдельный клиент на каждый кабинет
+ */
+const circuits = new Map<string, CircuitBreaker>();
+const rateLimitedUntil = new Map<string, number>();
+
+/**
+ * HTTP-клиент для внешних API: таймауты, повторы с экспоненциальной паузой и случайным разбросом,
+ * учет Retry-After и заголовков X-Ratelimit-*, предохранитель от серии ошибок
+ */
+export class HttpClient {
+    private readonly name: string;
+    private readonly baseUrl: string;
+    private readonly headers: Record<string, string>;
+    private readonly options: HttpClientOptions;
+    private readonly circuit: CircuitBreaker;
+    private readonly logger: Logger;
+
+    /**
+     * name - ключ общего состояния: клиенты с одинаковым name делят предохранитель и лимит запросов
+     */
+    constructor(name: string, baseUrl: string, headers: Record<string, string> = {}, options: { [K in keyof HttpClientOptions]?: HttpClientOptions[K] | undefined } = {}) {
+        this.name = name;
+        this.baseUrl = baseUrl;
+        this.headers = headers;
+        // Незаданные настройки (например, из необязательных переменных окружения) - по умолчанию
+        const definedOptions = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+        this.options = { ...DEFAULT_OPTIONS, ...definedOptions };
+        this.logger = new Logger(`HttpClient:${name}`);
+
+        let circuit = circuits.get(name);
+        if (!circuit) {
+            circuit = new CircuitBreaker(name, this.options.failureThreshold, this.options.resetTimeoutMs);
+            circuits.set(name, circuit);
+        }
+        this.circuit = circuit;
+    }
+
+    /**
+     * GET-запрос с разбором JSON; signal (например, таймаут задачи) прерывает текущий запрос и повторы
+     */
+    async getJson<T>(path: string, params: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+        const query = new URLSearchParams(params).toString();
+        const url = `${this.baseUrl}${path}${query ? `?${query}` : ""}`;
+
+        const response = await this.request(path, url, { method: "GET" }, signal);
+        return (await response.json()) as T;
+    }
+
+    /**
+     * path - метка метрик запроса (без параметров)
+     */
+    private async request(path: string, url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            await this.waitForRateLimit(signal);
+            signal?.throwIfAborted();
+
+            if (!this.circuit.tryAcquire()) {
+                throw new CircuitOpenError(this.name, this.circuit.getRetryInMs());
+            }
+
+            let retryDelayMs: number | null;
+            let failure: Error;
+            const stopTimer = httpClientRequestDurationSeconds.startTimer({ client: this.name, path });
+            try {
+                const response = await fetch(url, {
+                    ...init,
+                    headers: { ...this.headers, ...init.headers },
+                    signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(this.options.timeoutMs)]) : AbortSignal.timeout(this.options.timeoutMs),
+                });
+                stopTimer();
+                httpClientResponsesTotal.inc({ client: this.name, path, status: String(response.status) });
+
+                this.rememberRateLimit(response);
+
+                if (response.ok) {
+                    this.circuit.recordSuccess();
+                    return response;
+                }
+
+                failure = new HttpError(response.status, response.statusText, url);
+                if (!isRetryableStatus(response.status)) {
+                    // Ошибка запроса (например, невалидный токен), а не недоступность API
+                    this.circuit.recordSuccess();
+                    throw failure;
+                }
+
+                // 429 - не отказ API, а превышение лимита
+                if (response.status === 429) this.circuit.recordSuccess();
+                else this.circuit.recordFailure();
+
+                retryDelayMs = this.getRetryAfterMs(response);
+            } catch (error) {
+                if (error instanceof HttpError) throw error;
+
+                stopTimer();
+                // Прерванный вызывающим запрос не повторяется и не считается отказом API
+                if (signal?.aborted) {
+                    httpClientResponsesTotal.inc({ client: this.name, path, status: "aborted" });
+                    throw signal.reason;
+                }
+
+                // Сетевая ошибка или таймаут
+                const isTimeout = error instanceof Error && error.name === "TimeoutError";
+                httpClientResponsesTotal.inc({ client: this.name, path, status: isTimeout ? "timeout" : "error" });
+                this.circuit.recordFailure();
+                failure = error instanceof Error ? error : new Error(String(error));
+                retryDelayMs = null;
+            }
+
+            if (attempt >= this.options.maxRetries) {
+                throw failure;
+            }
+
+            const delayMs = retryDelayMs ?? this.getBackoffMs(attempt);
+            this.logger.warn(`Request ${url} failed (${failure.message}), retry ${attempt + 1}/${this.options.maxRetries} in ${delayMs} ms`);
+            await sleep(delayMs, signal);
+        }
+    }
+
+    /**
+     * Экспоненциальная пауза со случайным разбросом (full jitter)
+     */
+    private getBackoffMs(attempt: number): number {
+        const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        return Math.round(Math.random() * cap);
+    }
+
+    /**
+     * Пауза из Retry-After (секунды или HTTP-дата) или X-Ratelimit-Retry / X-Ratelimit-Reset (секунды)
+     */
+    private getRetryAfterMs(response: Response): number | null {
+        const retryAfter = response.headers.get("retry-after");
+        const ratelimitRetry = response.headers.get("x-ratelimit-retry") ?? response.headers.get("x-ratelimit-reset");
+
+        let delayMs: number | null = null;
+        if (retryAfter) {
+            const seconds = Number(retryAfter);
+            delayMs = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        } else if (ratelimitRetry && !Number.isNaN(Number(ratelimitRetry))) {
+            delayMs = Number(ratelimitRetry) * 1000;
+        }
+
+        if (delayMs === null || Number.isNaN(delayMs)) return null;
+        return Math.min(Math.max(0, delayMs), this.options.maxRetryAfterMs);
+    }
+
+    /**
+     * Если лимит запросов исчерпан (X-Ratelimit-Remaining: 0), следующие запросы ждут X-Ratelimit-Reset
+     */
+    private rememberRateLimit(response: Response): void {
+        const remaining = response.headers.get("x-ratelimit-remaining");
+        const reset = Number(response.headers.get("x-ratelimit-reset"));
+
+        if (remaining === "0" && reset > 0) {
+            rateLimitedUntil.set(this.name, Date.now() + Math.min(reset * 1000, this.options.maxRetryAfterMs));
+        }
+    }
+
+    private async waitForRateLimit(signal?: AbortSignal): Promise<void> {
+        const waitMs = (rateLimitedUntil.get(this.name) ?? 0) - Date.now();
+        if (waitMs > 0) {
+            this.logger.info(`Rate limit exhausted, waiting ${waitMs} ms`);
+            await sleep(waitMs, signal);
+        }
+    }
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Настройки клиента
+ */
+export interface HttpClientOptions {
+    /** Таймаут одного запроса, мс */
+    timeoutMs: number;
+    /** Количество повторов после первой попытки */
+    maxRetries: number;
+    /** Пауза перед первым повтором (верхняя граница), мс */
+    baseDelayMs: number;
+    /** Максимальная экспоненциальная пауза, мс */
+    maxDelayMs: number;
+    /** Максимальная пауза по Retry-After / X-Ratelimit-*, мс */
+    maxRetryAfterMs: number;
+    /** Количество ошибок подряд, после которых размыкается предохранитель */
+    failureThreshold: number;
+    /** Время, на которое размыкается предохранитель, мс */
+    resetTimeoutMs: number;
+}
@@ -0,0 +1,29 @@
+/**
+ * Ответ с кодом ошибки (после всех повторов)
+ */
+export class HttpError extends Error {
+    readonly status: number;
+    readonly url: string;
+
+    constructor(status: number, statusText: string, url: string) {
+        super(`HTTP ${status} ${statusText} for ${url}`);
+        this.name = "HttpError";
+        this.status = status;
+        this.url = url;
+    }
+}
+
+/**
+ * Запрос не отправлен: предохранитель разомкнут после серии ошибок
+ */
+export class CircuitOpenError extends Error {
+    readonly circuitName: string;
+    readonly retryInMs: number;
+
+    constructor(circuitName: string, retryInMs: number) {
+        super(`Circuit '${circuitName}' is open, retry in ${Math.ceil(retryInMs / 1000)} s`);
+        this.name = "CircuitOpenError";
+        this.circuitName = circuitName;
+        this.retryInMs = retryInMs;
+    }
+}
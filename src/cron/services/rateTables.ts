@@ -0,0 +1,105 @@
+/**
+ * Описание таблицы версионируемых тарифов: строки тарифов привязаны к владельцу (складу или предмету)
+ * и к периоду действия (tariff_periods)
+ */
+export interface RatesTable<TField extends string = string> {
+    tableName: string;
+    label: string;
+    keyColumn: "warehouse_id" | "subject_id";
+    fields: readonly TField[];
+}
+
+/**
+ * Тарифы коробов
+ */
+export const BOX_RATE_FIELDS = [
+    "box_delivery_base",
+    "box_delivery_coef",
+    "box_delivery_liter",
+    "box_delivery_marketplace_base",
+    "box_delivery_marketplace_coef",
+    "box_delivery_marketplace_liter",
+    "box_storage_base",
+    "box_storage_coef",
+    "box_storage_liter",
+] as const;
+
+export type BoxRateField = (typeof BOX_RATE_FIELDS)[number];
+
+export const BOX_RATES_TABLE: RatesTable<BoxRateField> = {
+    tableName: "box_rates",
+    label: "box",
+    keyColumn: "warehouse_id",
+    fields: BOX_RATE_FIELDS,
+};
+
+/**
+ * Тарифы монопаллет
+ */
+export const PALLET_RATE_FIELDS = [
+    "pallet_delivery_base",
+    "pallet_delivery_coef",
+    "pallet_delivery_liter",
+    "pallet_storage_coef",
+    "pallet_storage_value",
+] as const;
+
+export type PalletRateField = (typeof PALLET_RATE_FIELDS)[number];
+
+export const PALLET_RATES_TABLE: RatesTable<PalletRateField> = {
+    tableName: "pallet_rates",
+    label: "pallet",
+    keyColumn: "warehouse_id",
+    fields: PALLET_RATE_FIELDS,
+};
+
+/**
+ * Тарифы на возврат товаров продавцу
+ */
+export const RETURN_RATE_FIELDS = [
+    "return_kgt_office_base",
+    "return_kgt_office_liter",
+    "return_kgt_return",
+    "return_srg_office",
+    "return_srg_return",
+    "return_sup_courier_base",
+    "return_sup_courier_liter",
+    "return_sup_office_base",
+    "return_sup_office_liter",
+    "return_sup_return",
+] as const;
+
+export type ReturnRateField = (typeof RETURN_RATE_FIELDS)[number];
+
+export const RETURN_RATES_TABLE: RatesTable<ReturnRateField> = {
+    tableName: "return_rates",
+    label: "return",
+    keyColumn: "warehouse_id",
+    fields: RETURN_RATE_FIELDS,
+};
+
+/**
+ * Комиссии WB по предметам (категориям товаров) для каждой модели продаж, %
+ */
+export const COMMISSION_RATE_FIELDS = [
+    "commission_fbo",
+    "commission_fbs",
+    "commission_dbs",
+    "commission_edbs",
+    "commission_pickup",
+    "commission_booking",
+] as const;
+
+export type CommissionRateField = (typeof COMMISSION_RATE_FIELDS)[number];
+
+export const COMMISSION_RATES_TABLE: RatesTable<CommissionRateField> = {
+    tableName: "commission_rates",
+    label: "commission",
+    keyColumn: "subject_id",
+    fields: COMMISSION_RATE_FIELDS,
+};
+
+/**
+ * Таблицы тарифов, владельцем которых является склад
+ */
+export const WAREHOUSE_RATES_TABLES: RatesTable[] = [BOX_RATES_TABLE, PALLET_RATES_TABLE, RETURN_RATES_TABLE];
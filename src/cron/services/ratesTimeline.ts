@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/**
+ * Виды тарифов складов, по которым строится выборка на момент времени и хронология
+ */
+export const WAREHOUSE_RATES_KINDS = ["box", "pallet", "return"] as const;
+
+/**
+ * Наибольший интервал хронологии, дней
+ */
+export const MAX_TIMELINE_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateSchema = z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+    .transform((value) => new Date(value));
+
+/**
+ * Склады и кабинет; виды тарифов - списком через запятую или массивом (по умолчанию все)
+ */
+const filtersSchema = z.object({
+    seller_id: z.string().uuid().optional(),
+    warehouse_id: z.string().uuid().optional(),
+    geo_name: z.string().min(1).optional(),
+    warehouse_name: z.string().min(1).optional(),
+    rates: z
+        .union([z.string(), z.array(z.string())])
+        .transform((value) => (Array.isArray(value) ? value : value.split(",")).map((kind) => kind.trim()).filter(Boolean))
+        .pipe(z.array(z.enum(WAREHOUSE_RATES_KINDS)).min(1))
+        .optional(),
+});
+
+/**
+ * Параметры выборки тарифов, действовавших в момент at
+ */
+export const ratesAsOfInputSchema = filtersSchema.extend({
+    at: dateSchema,
+});
+
+/**
+ * Курсор страницы хронологии: склад, после которого начинается страница (см. encodeTimelineCursor)
+ */
+const cursorSchema = z
+    .string()
+    .transform((value, ctx) => {
+        try {
+            return JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+            return z.NEVER;
+        }
+    })
+    .pipe(z.tuple([z.string(), z.string(), z.string().uuid()], { invalid_type_error: "Invalid cursor" }))
+    .transform(([geo_name, warehouse_name, seller_id]) => ({ geo_name, warehouse_name, seller_id }));
+
+/**
+ * Параметры хронологии тарифов за интервал [from, to] не длиннее MAX_TIMELINE_RANGE_DAYS: страница
+ * из limit складов, следующая страница запрашивается с курсором next_cursor из ответа
+ */
+export const ratesBetweenInputSchema = filtersSchema
+    .extend({
+        from: dateSchema,
+        to: dateSchema,
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+        cursor: cursorSchema.optional(),
+    })
+    .refine((input) => input.from <= input.to, { message: "from must not be after to" })
+    .refine((input) => input.to.getTime() - input.from.getTime() <= MAX_TIMELINE_RANGE_DAYS * DAY_MS, {
+        message: `The interval must not be longer than ${MAX_TIMELINE_RANGE_DAYS} days`,
+    });
+
+/**
+ * Курсор страницы, которая начинается после склада warehouse
+ */
+export function encodeTimelineCursor(warehouse: TimelineCursor): string {
+    return Buffer.from(JSON.stringify([warehouse.geo_name, warehouse.warehouse_name, warehouse.seller_id])).toString("base64url");
+}
+
+export type WarehouseRatesKind = (typeof WAREHOUSE_RATES_KINDS)[number];
+export type RatesTimelineFilters = z.infer<typeof filtersSchema>;
+export type RatesAsOfInput = z.infer<typeof ratesAsOfInputSchema>;
+export type RatesBetweenInput = z.infer<typeof ratesBetweenInputSchema>;
+export type TimelineCursor = z.infer<typeof cursorSchema>;
@@ -0,0 +1,86 @@
+import { GoogleSheetsData } from "./GoogleSheetsService.js";
+
+/**
+ * Языки заголовков листа
+ */
+export const SHEET_LOCALES = ["ru", "en"] as const;
+export type SheetLocale = (typeof SHEET_LOCALES)[number];
+
+/**
+ * Колонки листа с тарифами коробов: заголовки на каждом языке и способ форматирования значения
+ */
+export const BOX_SHEET_COLUMNS: Record<BoxSheetColumnKey, SheetColumn> = {
+    geo_name: { headers: { ru: "Регион", en: "Region" }, format: "text" },
+    warehouse_name: { headers: { ru: "Склад", en: "Warehouse" }, format: "text" },
+    start_date: { headers: { ru: "Дата начала", en: "Start date" }, format: "date" },
+    end_date: { headers: { ru: "Дата окончания", en: "End date" }, format: "date" },
+    box_delivery_base: { headers: { ru: "Логистика (₽/л)", en: "Delivery (₽/l)" }, format: "number" },
+    box_delivery_coef: { headers: { ru: "Логистика коэф", en: "Delivery coef" }, format: "number" },
+    box_delivery_liter: { headers: { ru: "Логистика доп (₽/л)", en: "Delivery extra (₽/l)" }, format: "number" },
+    box_delivery_marketplace_base: { headers: { ru: "FBS база (₽/л)", en: "FBS base (₽/l)" }, format: "number" },
+    box_delivery_marketplace_coef: { headers: { ru: "FBS коэф", en: "FBS coef" }, format: "number" },
+    box_delivery_marketplace_liter: { headers: { ru: "FBS доп (₽/л)", en: "FBS extra (₽/l)" }, format: "number" },
+    box_storage_base: { headers: { ru: "Хранение (₽/л/день)", en: "Storage (₽/l/day)" }, format: "number" },
+    box_storage_coef: { headers: { ru: "Хранение коэф", en: "Storage coef" }, format: "number" },
+    box_storage_liter: { headers: { ru: "Хранение доп (₽/л/день)", en: "Storage extra (₽/l/day)" }, format: "number" },
+};
+
+/**
+ * Порядок колонок по умолчанию
+ */
+export const BOX_SHEET_COLUMN_KEYS = Object.keys(BOX_SHEET_COLUMNS) as BoxSheetColumnKey[];
+
+/**
+ * Текст листа без актуальных тарифов
+ */
+export const NO_RATES_MESSAGE: Record<SheetLocale, string> = {
+    ru: "Нет актуальных тарифов",
+    en: "No current rates",
+};
+
+export type BoxSheetColumnKey = keyof GoogleSheetsData;
+
+export interface SheetColumn {
+    headers: Record<SheetLocale, string>;
+    format: "text" | "date" | "number";
+}
+
+/**
+ * Текст листа без актуальных комиссий
+ */
+export const NO_COMMISSIONS_MESSAGE: Record<SheetLocale, string> = {
+    ru: "Нет актуальных комиссий",
+    en: "No current commissions",
+};
+
+/**
+ * Заголовки листа с тарифами монопаллет
+ */
+export const PALLET_SHEET_HEADERS: Record<SheetLocale, string[]> = {
+    ru: ["Регион", "Склад", "Дата начала", "Дата окончания", "Логистика (₽/л)", "Логистика коэф", "Логистика доп (₽/л)", "Хранение (₽/паллета/день)", "Хранение коэф"],
+    en: ["Region", "Warehouse", "Start date", "End date", "Delivery (₽/l)", "Delivery coef", "Delivery extra (₽/l)", "Storage (₽/pallet/day)", "Storage coef"],
+};
+
+/**
+ * Заголовки листа с комиссиями по предметам
+ */
+export const COMMISSION_SHEET_HEADERS: Record<SheetLocale, string[]> = {
+    ru: ["Категория", "Предмет", "ID предмета", "Действует с", "FBO (%)", "FBS (%)", "DBS (%)", "EDBS (%)", "C&C (%)", "Бронирование (%)"],
+    en: ["Category", "Subject", "Subject ID", "Valid from", "FBO (%)", "FBS (%)", "DBS (%)", "EDBS (%)", "C&C (%)", "Booking (%)"],
+};
+
+/**
+ * Заголовки листа с журналом изменений тарифов (одна строка на изменившееся поле)
+ */
+export const HISTORY_SHEET_HEADERS: Record<SheetLocale, string[]> = {
+    ru: ["Время изменения", "Тарифы", "Склад / предмет", "Поле", "Было", "Стало", "Изменение (%)"],
+    en: ["Changed at", "Rates", "Warehouse / subject", "Field", "Old value", "New value", "Delta (%)"],
+};
+
+/**
+ * Заголовки листа с рейтингом складов
+ */
+export const RECOMMENDATION_SHEET_HEADERS: Record<SheetLocale, string[]> = {
+    ru: ["Место", "Регион", "Склад", "Логистика FBO (₽)", "Хранение (₽/день)", "Хранение за период (₽)", "Итого (₽)"],
+    en: ["Rank", "Region", "Warehouse", "FBO delivery (₽)", "Storage (₽/day)", "Storage for period (₽)", "Total (₽)"],
+};
@@ -0,0 +1,81 @@
+import { buildSheetDiffRequests, SheetGrid } from "./sheetDiff.js";
+
+const grid: SheetGrid = { sheetId: 7, rowCount: 1000, columnCount: 26 };
+
+const current = [
+    ["Склад", "Доставка"],
+    ["Коледино", "46.00"],
+    ["Казань", "38.00"],
+];
+
+function cells(...values: string[]) {
+    return { values: values.map((value) => (value === "" ? {} : { userEnteredValue: { stringValue: value } })) };
+}
+
+describe("buildSheetDiffRequests", () => {
+    it("returns no requests when the sheet already holds the new content", () => {
+        expect(buildSheetDiffRequests(grid, current, current.map((row) => [...row]))).toEqual([]);
+    });
+
+    it("rewrites only the row with a changed cell", () => {
+        const next = [current[0], ["Коледино", "48.00"], current[2]];
+
+        expect(buildSheetDiffRequests(grid, current, next)).toEqual([
+            {
+                updateCells: {
+                    start: { sheetId: 7, rowIndex: 1, columnIndex: 0 },
+                    rows: [cells("Коледино", "48.00")],
+                    fields: "userEnteredValue",
+                },
+            },
+        ]);
+    });
+
+    it("writes added rows after the existing ones", () => {
+        const next = [...current, ["Тула", "41.00"], ["Подольск", "44.00"]];
+
+        expect(buildSheetDiffRequests(grid, current, next)).toEqual([
+            {
+                updateCells: {
+                    start: { sheetId: 7, rowIndex: 3, columnIndex: 0 },
+                    rows: [cells("Тула", "41.00"), cells("Подольск", "44.00")],
+                    fields: "userEnteredValue",
+                },
+            },
+        ]);
+    });
+
+    it("clears removed rows", () => {
+        const next = [current[0], current[2]];
+
+        expect(buildSheetDiffRequests(grid, current, next)).toEqual([
+            {
+                updateCells: {
+                    start: { sheetId: 7, rowIndex: 1, columnIndex: 0 },
+                    rows: [cells("Казань", "38.00"), cells("", "")],
+                    fields: "userEnteredValue",
+                },
+            },
+        ]);
+    });
+
+    it("writes the whole content into a recreated tab and grows its grid", () => {
+        const recreated: SheetGrid = { sheetId: 9, rowCount: 2, columnCount: 1 };
+
+        expect(buildSheetDiffRequests(recreated, [], current)).toEqual([
+            {
+                updateSheetProperties: {
+                    properties: { sheetId: 9, gridProperties: { rowCount: 3, columnCount: 2 } },
+                    fields: "gridProperties.rowCount,gridProperties.columnCount",
+                },
+            },
+            {
+                updateCells: {
+                    start: { sheetId: 9, rowIndex: 0, columnIndex: 0 },
+                    rows: current.map((row) => cells(...row)),
+                    fields: "userEnteredValue",
+                },
+            },
+        ]);
+    });
+});
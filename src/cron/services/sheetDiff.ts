@@ -0,0 +1,76 @@
+import type { sheets_v4 } from "googleapis";
+
+/**
+ * Размер сетки листа
+ */
+export interface SheetGrid {
+    sheetId: number;
+    rowCount: number;
+    columnCount: number;
+}
+
+/**
+ * Построение запросов batchUpdate, переводящих текущее содержимое листа в новое.
+ * Изменяются только отличающиеся строки, лишние строки очищаются, при нехватке места сетка расширяется
+ */
+export function buildSheetDiffRequests(grid: SheetGrid, current: string[][], next: string[][]): sheets_v4.Schema$Request[] {
+    const width = Math.max(1, ...current.map((row) => row.length), ...next.map((row) => row.length));
+    const height = Math.max(current.length, next.length);
+
+    const requests: sheets_v4.Schema$Request[] = [];
+
+    if (next.length > grid.rowCount || width > grid.columnCount) {
+        requests.push({
+            updateSheetProperties: {
+                properties: {
+                    sheetId: grid.sheetId,
+                    gridProperties: {
+                        rowCount: Math.max(grid.rowCount, next.length),
+                        columnCount: Math.max(grid.columnCount, width),
+                    },
+                },
+                fields: "gridProperties.rowCount,gridProperties.columnCount",
+            },
+        });
+    }
+
+    // Подряд идущие измененные строки записываются одним запросом
+    let blockStart = -1;
+    for (let rowIndex = 0; rowIndex <= height; rowIndex++) {
+        const changed = rowIndex < height && !rowsEqual(current[rowIndex] ?? [], next[rowIndex] ?? [], width);
+
+        if (changed && blockStart === -1) {
+            blockStart = rowIndex;
+        } else if (!changed && blockStart !== -1) {
+            requests.push(updateRowsRequest(grid.sheetId, blockStart, next.slice(blockStart, rowIndex), rowIndex - blockStart, width));
+            blockStart = -1;
+        }
+    }
+
+    return requests;
+}
+
+function rowsEqual(a: string[], b: string[], width: number): boolean {
+    for (let columnIndex = 0; columnIndex < width; columnIndex++) {
+        if ((a[columnIndex] ?? "") !== (b[columnIndex] ?? "")) return false;
+    }
+    return true;
+}
+
+/**
+ * Запись блока строк; ячейки без значения (в том числе строки за концом новых данных) очищаются
+ */
+function updateRowsRequest(sheetId: number, startRow: number, rows: string[][], rowsCount: number, width: number): sheets_v4.Schema$Request {
+    return {
+        updateCells: {
+            start: { sheetId, rowIndex: startRow, columnIndex: 0 },
+            rows: Array.from({ length: rowsCount }, (_, index) => ({
+                values: Array.from({ length: width }, (_, columnIndex) => {
+                    const value = rows[index]?.[columnIndex];
+                    return value === undefined || value === "" ? {} : { userEnteredValue: { stringValue: value } };
+                }),
+            })),
+            fields: "userEnteredValue",
+        },
+    };
+}
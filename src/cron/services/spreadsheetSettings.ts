@@ -0,0 +1,72 @@
+import { z } from "zod";
+import env from "#config/env/env.js";
+import { BOX_SHEET_COLUMN_KEYS, BoxSheetColumnKey, SHEET_LOCALES } from "./sheetColumns.js";
+
+const columnKeySchema = z.enum(BOX_SHEET_COLUMN_KEYS as [BoxSheetColumnKey, ...BoxSheetColumnKey[]]);
+
+const timezoneSchema = z.string().refine(
+    (timezone) => {
+        try {
+            new Intl.DateTimeFormat("ru-RU", { timeZone: timezone });
+            return true;
+        } catch {
+            return false;
+        }
+    },
+    { message: "Unknown timezone" },
+);
+
+/**
+ * Названия листов с тарифами монопаллет и комиссиями по умолчанию
+ */
+export const DEFAULT_PALLET_PAGE_NAME = "pallet_coefs";
+export const DEFAULT_COMMISSION_PAGE_NAME = "commissions";
+
+/**
+ * Настройки вывода листа с тарифами для одной таблицы (строка таблицы spreadsheets).
+ * Незаданные настройки заменяются значениями по умолчанию
+ */
+export const spreadsheetSettingsSchema = z.object({
+    spreadsheet_id: z.string(),
+    page_name: z
+        .string()
+        .nullable()
+        .transform((value) => value || env.SPREADSHEET_PAGE_NAME),
+    pallet_page_name: z
+        .string()
+        .nullable()
+        .transform((value) => value || DEFAULT_PALLET_PAGE_NAME),
+    commission_page_name: z
+        .string()
+        .nullable()
+        .transform((value) => value || DEFAULT_COMMISSION_PAGE_NAME),
+    columns: z
+        .array(columnKeySchema)
+        .min(1)
+        .nullable()
+        .transform((value) => value ?? BOX_SHEET_COLUMN_KEYS),
+    geo_names: z.array(z.string()).nullable(),
+    warehouse_names: z.array(z.string()).nullable(),
+    sort_key: columnKeySchema.nullable().transform((value) => value ?? "box_storage_coef"),
+    sort_direction: z.enum(["asc", "desc"]),
+    locale: z.enum(SHEET_LOCALES),
+    timezone: timezoneSchema,
+});
+
+export type SpreadsheetSettings = z.infer<typeof spreadsheetSettingsSchema>;
+
+/**
+ * Колонки таблицы spreadsheets с настройками вывода
+ */
+export const SPREADSHEET_SETTINGS_COLUMNS = [
+    "page_name",
+    "pallet_page_name",
+    "commission_page_name",
+    "columns",
+    "geo_names",
+    "warehouse_names",
+    "sort_key",
+    "sort_direction",
+    "locale",
+    "timezone",
+] as const;
@@ -0,0 +1,93 @@
+import _knex from "knex";
+import { BOX_RATES_TABLE, BoxRateField } from "./rateTables.js";
+import { CurrentRate, detectRateChange, selectMissingOwnerRates, tariffPeriodEndsAfter } from "./tariffPeriods.js";
+
+function boxRate(overrides: Partial<Record<BoxRateField, number | null>> = {}): Record<BoxRateField, number | null> {
+    const rate = Object.fromEntries(BOX_RATES_TABLE.fields.map((field) => [field, 10])) as Record<BoxRateField, number | null>;
+    return { ...rate, ...overrides };
+}
+
+function currentBoxRate(ownerId: string, overrides: Partial<Record<BoxRateField, number | null>> = {}): CurrentRate<BoxRateField> {
+    return { owner_id: ownerId, tariff_period_id: `period-${ownerId}`, end_date: null, ...boxRate(overrides) };
+}
+
+describe("detectRateChange", () => {
+    const field = BOX_RATES_TABLE.fields[0];
+
+    it("opens a new period for an owner without current rates", () => {
+        expect(detectRateChange(BOX_RATES_TABLE, undefined, boxRate())).toEqual({ kind: "new" });
+    });
+
+    it("extends the period when rates differ by no more than 0.01", () => {
+        expect(detectRateChange(BOX_RATES_TABLE, currentBoxRate("w-1"), boxRate({ [field]: 10.01 }))).toEqual({ kind: "unchanged" });
+    });
+
+    it("lists the changed fields with old and new values", () => {
+        expect(detectRateChange(BOX_RATES_TABLE, currentBoxRate("w-1"), boxRate({ [field]: 12.5 }))).toEqual({
+            kind: "changed",
+            fields: [{ field, old_value: 10, new_value: 12.5 }],
+        });
+    });
+
+    it("treats a rate that became unavailable as a change", () => {
+        expect(detectRateChange(BOX_RATES_TABLE, currentBoxRate("w-1"), boxRate({ [field]: null }))).toEqual({
+            kind: "changed",
+            fields: [{ field, old_value: 10, new_value: null }],
+        });
+        expect(detectRateChange(BOX_RATES_TABLE, currentBoxRate("w-1", { [field]: null }), boxRate({ [field]: null }))).toEqual({ kind: "unchanged" });
+    });
+});
+
+describe("selectMissingOwnerRates", () => {
+    const currentRates = [currentBoxRate("w-1"), currentBoxRate("w-2")];
+
+    it("closes periods of owners missing from a clean response", () => {
+        expect(selectMissingOwnerRates(currentRates, new Set(["w-1"]), { quarantinedCount: 0, backfill: false })).toEqual({
+            missing: [currentRates[1]],
+            close: [currentRates[1]],
+            keptReason: null,
+        });
+    });
+
+    it("keeps periods when some rows were quarantined", () => {
+        expect(selectMissingOwnerRates(currentRates, new Set(["w-1"]), { quarantinedCount: 1, backfill: false })).toEqual({
+            missing: [currentRates[1]],
+            close: [],
+            keptReason: "quarantined",
+        });
+    });
+
+    it("keeps periods when loading history", () => {
+        expect(selectMissingOwnerRates(currentRates, new Set(["w-1"]), { quarantinedCount: 0, backfill: true })).toMatchObject({
+            close: [],
+            keptReason: "backfill",
+        });
+    });
+
+    it("keeps periods when the response is empty", () => {
+        expect(selectMissingOwnerRates(currentRates, new Set(), { quarantinedCount: 0, backfill: false })).toEqual({
+            missing: currentRates,
+            close: [],
+            keptReason: "empty_response",
+        });
+    });
+
+    it("has nothing to close when every owner is in the response", () => {
+        expect(selectMissingOwnerRates(currentRates, new Set(["w-1", "w-2"]), { quarantinedCount: 3, backfill: false })).toEqual({
+            missing: [],
+            close: [],
+            keptReason: null,
+        });
+    });
+});
+
+describe("tariffPeriodEndsAfter", () => {
+    it("excludes the end_date itself from the period", () => {
+        const at = new Date("2026-10-19T00:00:00.000Z");
+
+        const query = _knex({ client: "pg" })("tariff_periods").where(tariffPeriodEndsAfter(at)).toSQL().toNative();
+
+        expect(query.sql).toBe('select * from "tariff_periods" where ("tariff_periods"."end_date" is null or "tariff_periods"."end_date" > $1)');
+        expect(query.bindings).toEqual([at]);
+    });
+});
@@ -0,0 +1,91 @@
+import { Knex } from "knex";
+import type { ProcessedRate, RateFieldChange } from "./DataProcessor.js";
+import { RatesTable } from "./rateTables.js";
+
+/**
+ * Условие "период не закончился к моменту at": end_date не входит в период (действует до end_date, не включая его),
+ * null - период бессрочный
+ */
+export function tariffPeriodEndsAfter(at: Date): (this: Knex.QueryBuilder) => void {
+    return function (this: Knex.QueryBuilder) {
+        this.whereNull("tariff_periods.end_date").orWhere("tariff_periods.end_date", ">", at);
+    };
+}
+
+/**
+ * Сравнение новых тарифов владельца с текущими: новый период (текущих нет), продление (не изменились)
+ * или закрытие текущего периода с открытием нового (изменились)
+ */
+export function detectRateChange<TField extends string>(
+    table: RatesTable<TField>,
+    currentRate: CurrentRate<TField> | undefined,
+    newRate: ProcessedRate<TField>,
+): RateDecision {
+    if (!currentRate) return { kind: "new" };
+
+    const fields = findRateChanges(table, currentRate, newRate);
+    return fields.length === 0 ? { kind: "unchanged" } : { kind: "changed", fields };
+}
+
+/**
+ * Сравнение новых тарифов с текущими: список изменившихся полей (пустой - тарифы совпадают).
+ * Недоступное значение (null) отличается от любого числа, числа сравниваются с точностью до 2 знаков
+ */
+export function findRateChanges<TField extends string>(table: RatesTable<TField>, currentRate: CurrentRate<TField>, newRate: ProcessedRate<TField>): RateFieldChange[] {
+    const changes: RateFieldChange[] = [];
+    for (const field of table.fields) {
+        const processed = newRate[field];
+        const db = currentRate[field];
+
+        const differs = processed === null || db === null ? processed !== db : Math.abs(processed - db) > 0.01;
+        if (differs) {
+            changes.push({ field, old_value: db, new_value: processed });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Текущие тарифы владельцев, пропавших из ответа WB, и решение по ним. Периоды закрываются, только если
+ * ни одна строка не ушла в карантин (отсутствие может быть ошибкой данных), это не загрузка истории
+ * и ответ не пустой
+ */
+export function selectMissingOwnerRates<TRate extends { owner_id: string }>(
+    currentRates: Iterable<TRate>,
+    responseOwnerIds: ReadonlySet<string>,
+    options: { quarantinedCount: number; backfill: boolean },
+): MissingOwnerRates<TRate> {
+    const missing = [...currentRates].filter((currentRate) => !responseOwnerIds.has(currentRate.owner_id));
+
+    let keptReason: MissingOwnersKeptReason | null = null;
+    if (missing.length > 0) {
+        if (options.backfill) keptReason = "backfill";
+        else if (options.quarantinedCount > 0) keptReason = "quarantined";
+        else if (responseOwnerIds.size === 0) keptReason = "empty_response";
+    }
+
+    return { missing, close: keptReason ? [] : missing, keptReason };
+}
+
+/**
+ * Текущие тарифы владельца из БД
+ */
+export type CurrentRate<TField extends string> = {
+    owner_id: string;
+    tariff_period_id: string;
+    end_date: Date | null;
+} & Record<TField, number | null>;
+
+export type RateDecision = { kind: "new" } | { kind: "unchanged" } | { kind: "changed"; fields: RateFieldChange[] };
+
+/**
+ * Почему периоды пропавших владельцев не закрываются
+ */
+export type MissingOwnersKeptReason = "backfill" | "quarantined" | "empty_response";
+
+export interface MissingOwnerRates<TRate> {
+    missing: TRate[];
+    /** Тарифы, периоды которых закрываются */
+    close: TRate[];
+    keptReason: MissingOwnersKeptReason | null;
+}
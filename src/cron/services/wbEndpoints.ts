@@ -0,0 +1,27 @@
+/**
+ * Хосты WB API по умолчанию (WB_API_BASE_URL заменяет их все, например на адрес заглушки WB)
+ */
+export const WB_API_HOSTS = {
+    common: "https://common-api.wildberries.ru",
+    supplies: "https://supplies-api.wildberries.ru",
+} as const;
+
+export type WbApiName = keyof typeof WB_API_HOSTS;
+
+/**
+ * Используемые эндпоинты WB API. Ключ - имя файла ответа в каталоге фикстур заглушки WB
+ */
+export const WB_ENDPOINTS = {
+    box: { api: "common", path: "/api/v1/tariffs/box" },
+    pallet: { api: "common", path: "/api/v1/tariffs/pallet" },
+    return: { api: "common", path: "/api/v1/tariffs/return" },
+    commission: { api: "common", path: "/api/v1/tariffs/commission" },
+    acceptance: { api: "supplies", path: "/api/v1/acceptance/coefficients" },
+} as const satisfies Record<string, WbEndpoint>;
+
+export type WbEndpointName = keyof typeof WB_ENDPOINTS;
+
+export interface WbEndpoint {
+    api: WbApiName;
+    path: string;
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/**
+ * Число из ответа WB: строки вида "1,25" и "1 039" приводятся к числу,
+ * "-" и пустая строка означают "значение недоступно" (null)
+ */
+export const wbNumberSchema = z.union([z.number(), z.string(), z.null()]).transform((value, ctx) => {
+    if (typeof value === "number" || value === null) return value;
+
+    const normalized = value.replace(/\s/g, "").replace(",", ".");
+    if (normalized === "" || normalized === "-") return null;
+
+    const number = Number(normalized);
+    if (Number.isNaN(number)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a number: "${value}"` });
+        return z.NEVER;
+    }
+    return number;
+});
+
+const wbDateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" });
+
+/**
+ * Ответы WB целиком: строки проверяются по отдельности, чтобы одна некорректная строка
+ * не отменяла сохранение остальных
+ */
+export const wbBoxRatesResponseSchema = z.object({
+    dtTillMax: wbDateSchema,
+    warehouseList: z.array(z.unknown()),
+});
+
+export const wbPalletRatesResponseSchema = wbBoxRatesResponseSchema;
+
+export const wbReturnRatesResponseSchema = z.object({
+    warehouseList: z.array(z.unknown()),
+});
+
+export const wbSubjectCommissionsResponseSchema = z.object({
+    report: z.array(z.unknown()),
+});
+
+/**
+ * Строки ответов WB
+ */
+export const wbBoxRateSchema = z.object({
+    boxDeliveryBase: wbNumberSchema,
+    boxDeliveryCoefExpr: wbNumberSchema,
+    boxDeliveryLiter: wbNumberSchema,
+    boxDeliveryMarketplaceBase: wbNumberSchema,
+    boxDeliveryMarketplaceCoefExpr: wbNumberSchema,
+    boxDeliveryMarketplaceLiter: wbNumberSchema,
+    boxStorageBase: wbNumberSchema,
+    boxStorageCoefExpr: wbNumberSchema,
+    boxStorageLiter: wbNumberSchema,
+    geoName: z.string().min(1),
+    warehouseName: z.string().min(1),
+});
+
+export const wbPalletRateSchema = z.object({
+    palletDeliveryExpr: wbNumberSchema,
+    palletDeliveryValueBase: wbNumberSchema,
+    palletDeliveryValueLiter: wbNumberSchema,
+    palletStorageExpr: wbNumberSchema,
+    palletStorageValueExpr: wbNumberSchema,
+    geoName: z.string().min(1).optional(),
+    warehouseName: z.string().min(1),
+});
+
+export const wbReturnRateSchema = z.object({
+    deliveryDumpKgtOfficeBase: wbNumberSchema,
+    deliveryDumpKgtOfficeLiter: wbNumberSchema,
+    deliveryDumpKgtReturnExpr: wbNumberSchema,
+    deliveryDumpSrgOfficeExpr: wbNumberSchema,
+    deliveryDumpSrgReturnExpr: wbNumberSchema,
+    deliveryDumpSupCourierBase: wbNumberSchema,
+    deliveryDumpSupCourierLiter: wbNumberSchema,
+    deliveryDumpSupOfficeBase: wbNumberSchema,
+    deliveryDumpSupOfficeLiter: wbNumberSchema,
+    deliveryDumpSupReturnExpr: wbNumberSchema,
+    warehouseName: z.string().min(1),
+});
+
+export const wbSubjectCommissionSchema = z.object({
+    kgvpBooking: wbNumberSchema,
+    kgvpMarketplace: wbNumberSchema,
+    kgvpPickup: wbNumberSchema,
+    kgvpSupplier: wbNumberSchema,
+    kgvpSupplierExpress: wbNumberSchema,
+    paidStorageKgvp: wbNumberSchema,
+    parentID: z.number().int(),
+    parentName: z.string(),
+    subjectID: z.number().int(),
+    subjectName: z.string().min(1),
+});
+
+export const wbAcceptanceCoefficientSchema = z.object({
+    date: wbDateSchema,
+    coefficient: z.number(),
+    warehouseID: z.number().int(),
+    warehouseName: z.string().min(1),
+    allowUnload: z.boolean(),
+    boxTypeName: z.string().min(1),
+    boxTypeID: z.number().int().optional(),
+    storageCoef: wbNumberSchema.optional(),
+    deliveryCoef: wbNumberSchema.optional(),
+    isSortingCenter: z.boolean(),
+});
@@ -0,0 +1,39 @@
+import { Logger } from "./utils/Logger.js";
+import { WildberriesApiService } from "./services/WildberriesApiService.js";
+import { DataProcessor } from "./services/DataProcessor.js";
+import { Seller } from "./services/SellerService.js";
+import { SellerSyncResult, SyncTrigger, toAcceptanceSyncCounts } from "./services/SyncRunService.js";
+import { runSellerJob } from "./utils/sellerJob.js";
+
+/**
+ * Синхронизация коэффициентов приемки с Wildberries API для всех активных кабинетов продавцов.
+ * Одновременно выполняется только один запуск (крон, CLI или HTTP), остальные пропускаются
+ */
+export async function syncAcceptance(trigger: SyncTrigger = "cron", signal?: AbortSignal) {
+    return runSellerJob(
+        { job: "sync-acceptance", title: "Acceptance coefficients synchronization", loggerName: "SyncAcceptance", trigger, signal },
+        (seller, report) => syncSellerAcceptance(seller, report, signal),
+    );
+}
+
+/**
+ * Синхронизация коэффициентов приемки одного кабинета
+ */
+async function syncSellerAcceptance(seller: Seller, report: SellerSyncResult, signal?: AbortSignal) {
+    const logger = new Logger(`SyncAcceptance:${seller.name}`);
+    
+    // 1. Получение данных от WB API
+    const wbService = new WildberriesApiService(seller.wb_token, signal);
+    const coefficients = await wbService.getAcceptanceCoefficients();
+    
+    if (!coefficients) {
+        logger.warn("No acceptance coefficients received from WB API - skipping");
+        return;
+    }
+    
+    // 2. Сохранение изменившихся слотов
+    const processor = new DataProcessor(seller.id);
+    const result = await processor.saveAcceptanceCoefficients(coefficients);
+    report.counts.acceptance = toAcceptanceSyncCounts(result);
+    logger.info(`Processed and saved: ${result.receivedCount} acceptance coefficients received, ${result.changedCount} changed, ${result.quarantinedCount} quarantined`);
+}
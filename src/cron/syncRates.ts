@@ -2,21 +2,36 @@ import { Logger } from "./utils/Logger.js";
 import { WildberriesApiService } from "./services/WildberriesApiService.js";
 import { GoogleSheetsService } from "./services/GoogleSheetsService.js";
 import { DataProcessor } from "./services/DataProcessor.js";
-import knex from "#postgres/knex.js";
+import { AlertService } from "./services/AlertService.js";
+import { Seller } from "./services/SellerService.js";
+import { SellerSyncResult, SyncTrigger, toSyncCounts } from "./services/SyncRunService.js";
+import { runSellerJob } from "./utils/sellerJob.js";
 import env from "#config/env/env.js";
 
 /**
- * Синхронизация тарифов с Wildberries API
+ * Синхронизация тарифов с Wildberries API для всех активных кабинетов продавцов: сохранение в БД,
+ * уведомления и журнал изменений на листе history. Остальные листы публикует задача publish-sheets.
+ * Одновременно выполняется только один запуск (крон, CLI или HTTP), остальные пропускаются
  */
-export async function syncRates() {
-    const logger = new Logger("SyncRates");
+export async function syncRates(trigger: SyncTrigger = "cron", signal?: AbortSignal) {
+    return runSellerJob(
+        { job: "sync-rates", title: "Rates synchronization", loggerName: "SyncRates", trigger, signal },
+        (seller, report) => syncSellerRates(seller, report, signal),
+    );
+}
+
+/**
+ * Синхронизация тарифов одного кабинета
+ */
+async function syncSellerRates(seller: Seller, report: SellerSyncResult, signal?: AbortSignal) {
+    const logger = new Logger(`SyncRates:${seller.name}`);
     
     try {
-        logger.info("Starting rates synchronization...");
+        logger.info("Starting seller rates synchronization...");
         
         // 1. Получение данных от WB API
         logger.info("Step 1: Fetching data from Wildberries API");
-        const wbService = new WildberriesApiService(env.WB_TOKEN);
+        const wbService = new WildberriesApiService(seller.wb_token, signal);
         const wbData = await wbService.getWarehouseBoxRates();
         logger.info(`Received ${wbData?.warehouseList?.length || 'undefined'} warehouse rates from WB API`);
         
@@ -27,86 +42,79 @@ export async function syncRates() {
         
         // 2. Обработка и сохранение данных
         logger.info("Step 2: Processing and saving data");
-        const processor = new DataProcessor();
+        const processor = new DataProcessor(seller.id);
         const result = await processor.transformAndSaveDataToDb(wbData);
-        logger.info(`Processed and saved: ${result.tariffPeriodsCount} tariff periods, ${result.warehousesCount} warehouses, ${result.boxRatesCount} box rates`);
+        report.counts.box = toSyncCounts(result);
         
-        // 3. Получение актуальных данных для Google Sheets
-        logger.info("Step 3: Fetching current rates for Google Sheets");
-        const currentRates = await getDataForGoogleSheets();
-        logger.info(`Found ${currentRates.length} current rates for Google Sheets`);
+        // 2.0. Уведомления по правилам: ошибка отправки не останавливает синхронизацию
+        try {
+            const alertResult = await new AlertService(seller.id).processBoxRates();
+            logger.info(`Alerts: ${alertResult.matchedCount} matched, ${alertResult.sentCount} sent, ${alertResult.failedCount} failed`);
+        } catch (error) {
+            logger.error("Error processing alert rules:", error);
+        }
+        logger.info(`Processed and saved: ${result.tariffPeriodsCount} tariff periods, ${result.ownersCount} warehouses, ${result.ratesCount} box rates, ${result.quarantinedCount} quarantined`);
         
-        // 4. Обновление Google Sheets
-        logger.info("Step 4: Updating Google Sheets");
-        const sheetsService = new GoogleSheetsService(env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH);
-        await sheetsService.updateSpreadsheets(currentRates, "stocks_coefs");
+        signal?.throwIfAborted();
         
-        logger.info("Rates synchronization completed successfully!");
+        // 2.1. Тарифы монопаллет: получение и версионирование по той же схеме
+        logger.info("Step 2.1: Fetching and saving pallet rates");
+        const wbPalletData = await wbService.getWarehousePalletRates();
+        if (wbPalletData?.warehouseList) {
+            const palletResult = await processor.transformAndSavePalletDataToDb(wbPalletData);
+            report.counts.pallet = toSyncCounts(palletResult);
+            logger.info(`Processed and saved: ${palletResult.tariffPeriodsCount} tariff periods, ${palletResult.ownersCount} warehouses, ${palletResult.ratesCount} pallet rates, ${palletResult.quarantinedCount} quarantined`);
+        } else {
+            logger.warn("No pallet data received from WB API - skipping pallet rates");
+        }
         
-    } catch (error) {
-        logger.error("Error during rates synchronization:", error);
-        throw error;
-    }
-}
-
-/**
- * Получение актуальных данных для Google Sheets
- */
-async function getDataForGoogleSheets() {
-    const logger = new Logger("GetDataForGoogleSheets");
-    
-    try {
-        // Получаем актуальные тарифы (с end_date = null или end_date >= today)
-        const today = new Date();
+        signal?.throwIfAborted();
+        
+        // 2.2. Тарифы на возврат
+        logger.info("Step 2.2: Fetching and saving return rates");
+        const wbReturnData = await wbService.getWarehouseReturnRates();
+        if (wbReturnData?.warehouseList) {
+            const returnResult = await processor.transformAndSaveReturnDataToDb(wbReturnData);
+            report.counts.return = toSyncCounts(returnResult);
+            logger.info(`Processed and saved: ${returnResult.tariffPeriodsCount} tariff periods, ${returnResult.ownersCount} warehouses, ${returnResult.ratesCount} return rates, ${returnResult.quarantinedCount} quarantined`);
+        } else {
+            logger.warn("No return data received from WB API - skipping return rates");
+        }
+        
+        signal?.throwIfAborted();
         
-        const currentRates = await knex('box_rates')
-            .join('warehouses', 'box_rates.warehouse_id', 'warehouses.id')
-            .join('tariff_periods', 'box_rates.tariff_period_id', 'tariff_periods.id')
-            .where(function() {
-                this.whereNull('tariff_periods.end_date')
-                    .orWhere('tariff_periods.end_date', '>=', today);
-            })
-            .select(
-                'warehouses.geo_name',
-                'warehouses.warehouse_name',
-                'box_rates.box_delivery_base',
-                'box_rates.box_delivery_coef',
-                'box_rates.box_delivery_liter',
-                'box_rates.box_delivery_marketplace_base',
-                'box_rates.box_delivery_marketplace_coef',
-                'box_rates.box_delivery_marketplace_liter',
-                'box_rates.box_storage_base',
-                'box_rates.box_storage_coef',
-                'box_rates.box_storage_liter',
-                'tariff_periods.start_date',
-                'tariff_periods.end_date'
-            )
-            .orderBy('box_rates.box_storage_coef', 'asc')
-            .orderBy('warehouses.geo_name');
+        // 2.3. Комиссии по предметам
+        logger.info("Step 2.3: Fetching and saving subject commissions");
+        const wbCommissionData = await wbService.getSubjectCommissions();
+        if (wbCommissionData?.report) {
+            const commissionResult = await processor.transformAndSaveCommissionDataToDb(wbCommissionData);
+            report.counts.commission = toSyncCounts(commissionResult);
+            logger.info(`Processed and saved: ${commissionResult.tariffPeriodsCount} tariff periods, ${commissionResult.ownersCount} subjects, ${commissionResult.ratesCount} commission rates, ${commissionResult.quarantinedCount} quarantined`);
+        } else {
+            logger.warn("No commission data received from WB API - skipping commissions");
+        }
+        
+        // 3. Изменения тарифов дописываются на лист журнала из rate_change_events: события, не дописанные
+        // из-за сбоя или прерывания, публикуются следующим запуском. Тарифы уже сохранены, поэтому ошибка
+        // записи журнала не делает синхронизацию кабинета неудачной
+        logger.info("Step 3: Appending rate changes to Google Sheets");
+        try {
+            const sheetsService = new GoogleSheetsService(env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH);
+            const outcomes = await sheetsService.appendRateChanges(seller.id, "history");
+            report.spreadsheets.push(...outcomes);
+
+            const failedCount = outcomes.filter(outcome => outcome.status === "failed").length;
+            if (failedCount > 0) {
+                logger.warn(`Rate changes were not appended to ${failedCount} spreadsheets - they will be appended by the next run`);
+            }
+        } catch (error) {
+            logger.error("Error appending rate changes to Google Sheets - they will be appended by the next run:", error);
+        }
         
-        logger.info(`Retrieved ${currentRates.length} current rates from database`);
-        return currentRates;
+        logger.info("Seller rates synchronization completed successfully!");
         
     } catch (error) {
-        logger.error("Error fetching data for Google Sheets:", error);
+        logger.error("Error during seller rates synchronization:", error);
         throw error;
     }
 }
-
-// Запуск синхронизации если файл выполняется напрямую
-const isMainModule = import.meta.url === `file://${process.argv[1]}` || 
-                     import.meta.url.endsWith(process.argv[1]) ||
-                     process.argv[1]?.endsWith('syncRates.ts');
-
-if (isMainModule) {
-    console.log("Running syncRates...");
-    syncRates()
-        .then(() => {
-            console.log("Sync completed successfully");
-            process.exit(0);
-        })
-        .catch((error) => {
-            console.error("Sync failed:", error);
-            process.exit(1);
-        });
-}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { configureLogging, Logger } from "./Logger.js";
+import { runWithLogContext } from "./logContext.js";
+
+let lines: string[] = [];
+
+beforeEach(() => {
+    lines = [];
+    configureLogging({ format: "json", level: "debug", output: (line) => lines.push(line) });
+});
+
+afterAll(() => {
+    configureLogging();
+});
+
+function getRecords(): Record<string, unknown>[] {
+    return lines.map((line) => JSON.parse(line));
+}
+
+describe("Logger", () => {
+    it("writes one JSON object per line with time, level, logger and message", () => {
+        new Logger("SyncRates").info("Processed %d warehouses", 15);
+
+        expect(getRecords()).toEqual([
+            {
+                time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/),
+                level: "INFO",
+                logger: "SyncRates",
+                message: "Processed 15 warehouses",
+            },
+        ]);
+    });
+
+    it("moves the first error argument to the error field with its stack", () => {
+        const error = Object.assign(new Error("WB API is unavailable"), { status: 503 });
+
+        new Logger("WildberriesApiService").error("Request failed:", error);
+
+        const [record] = getRecords();
+        expect(record).toMatchObject({
+            level: "ERROR",
+            message: "Request failed:",
+            error: { name: "Error", message: "WB API is unavailable", status: 503 },
+        });
+        expect((record.error as { stack: string }).stack).toContain("WB API is unavailable");
+    });
+
+    it("adds the run context to every line, including lines written after await", async () => {
+        const logger = new Logger("SyncRates");
+
+        await runWithLogContext({ job: "sync-rates", run_id: "run-1" }, async () => {
+            logger.info("Starting");
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            await runWithLogContext({ seller: "default" }, async () => {
+                logger.withContext({ warehouse_id: "w-1" }).debug("Extended period");
+            });
+            logger.info("Completed");
+        });
+        logger.info("Outside of the run");
+
+        expect(getRecords().map(({ time: _time, ...record }) => record)).toEqual([
+            { level: "INFO", logger: "SyncRates", job: "sync-rates", run_id: "run-1", message: "Starting" },
+            { level: "DEBUG", logger: "SyncRates", job: "sync-rates", run_id: "run-1", seller: "default", warehouse_id: "w-1", message: "Extended period" },
+            { level: "INFO", logger: "SyncRates", job: "sync-rates", run_id: "run-1", message: "Completed" },
+            { level: "INFO", logger: "SyncRates", message: "Outside of the run" },
+        ]);
+    });
+
+    it("keeps the context of concurrent runs apart", async () => {
+        const logger = new Logger("SyncRates");
+
+        await Promise.all(
+            ["run-1", "run-2"].map((runId) =>
+                runWithLogContext({ run_id: runId }, async () => {
+                    await new Promise((resolve) => setTimeout(resolve, runId === "run-1" ? 5 : 1));
+                    logger.info(`Finished ${runId}`);
+                }),
+            ),
+        );
+
+        expect(getRecords().map(({ run_id, message }) => ({ run_id, message }))).toEqual([
+            { run_id: "run-2", message: "Finished run-2" },
+            { run_id: "run-1", message: "Finished run-1" },
+        ]);
+    });
+
+    it("writes text lines with the context in brackets", () => {
+        configureLogging({ format: "text", level: "info", output: (line) => lines.push(line) });
+
+        runWithLogContext({ job: "publish-sheets", seller: "second" }, () => new Logger("PublishSheets").warn("Skipped"));
+
+        expect(lines).toEqual([expect.stringMatching(/^\[\S+\] \[WARN\] \[PublishSheets\] \[job=publish-sheets seller=second\] Skipped$/)]);
+    });
+});
@@ -1,22 +1,132 @@
+import log4js from "log4js";
+import util from "util";
+import env from "#config/env/env.js";
+import { getLogContext, LogContext, runWithLogContext } from "./logContext.js";
+
+let configured = false;
+
+/**
+ * Настройка вывода логов: уровень и формат (text - строки для чтения, json - по объекту JSON на строку).
+ * По умолчанию - из LOG_LEVEL и LOG_FORMAT; вызывается автоматически при создании первого логгера.
+ * INFO и ниже пишутся в stdout, WARN и ERROR - в stderr, а если задан output - все строки передаются в него
+ */
+export function configureLogging(options: LoggingOptions = {}): void {
+    const format = options.format ?? env.LOG_FORMAT ?? "text";
+    const level = options.level ?? env.LOG_LEVEL ?? "info";
+
+    // Контекст читается при форматировании строки: аппендеры форматируют синхронно в момент вызова логгера
+    log4js.addLayout("text", () => formatText);
+    log4js.addLayout("json", () => formatJson);
+
+    const { output } = options;
+    const layout = format === "json" ? formatJson : formatText;
+    log4js.configure(
+        output
+            ? {
+                  appenders: {
+                      output: { type: { configure: () => (logEvent: log4js.LoggingEvent) => output(layout(logEvent)) } },
+                  },
+                  categories: {
+                      default: { appenders: ["output"], level },
+                  },
+              }
+            : {
+                  appenders: {
+                      stdout: { type: "stdout", layout: { type: format } },
+                      stderr: { type: "stderr", layout: { type: format } },
+                      out: { type: "logLevelFilter", appender: "stdout", level: "trace", maxLevel: "info" },
+                      err: { type: "logLevelFilter", appender: "stderr", level: "warn" },
+                  },
+                  categories: {
+                      default: { appenders: ["out", "err"], level },
+                  },
+              },
+    );
+    configured = true;
+}
+
 /**
- * Простой логгер для крон-скриптов
+ * Логгер компонента поверх log4js: к каждой строке добавляется контекст логов (см. runWithLogContext)
  */
 export class Logger {
     private readonly component: string;
+    private readonly context: LogContext;
+    private readonly logger: log4js.Logger;
+
+    /**
+     * context - поля, которые добавляются ко всем строкам этого логгера
+     */
+    constructor(component: string, context: LogContext = {}) {
+        if (!configured) configureLogging();
 
-    constructor(component: string) {
         this.component = component;
+        this.context = context;
+        this.logger = log4js.getLogger(component);
+    }
+
+    /**
+     * Логгер того же компонента с дополнительными полями контекста, например { warehouse_id }
+     */
+    withContext(context: LogContext): Logger {
+        return new Logger(this.component, { ...this.context, ...context });
     }
 
-    info(message: string, ...args: any[]) {
-        console.log(`[${new Date().toISOString()}] [INFO] [${this.component}] ${message}`, ...args);
+    debug(message: string, ...args: unknown[]) {
+        this.log("debug", message, args);
     }
 
-    warn(message: string, ...args: any[]) {
-        console.warn(`[${new Date().toISOString()}] [WARN] [${this.component}] ${message}`, ...args);
+    info(message: string, ...args: unknown[]) {
+        this.log("info", message, args);
     }
 
-    error(message: string, ...args: any[]) {
-        console.error(`[${new Date().toISOString()}] [ERROR] [${this.component}] ${message}`, ...args);
+    warn(message: string, ...args: unknown[]) {
+        this.log("warn", message, args);
     }
+
+    error(message: string, ...args: unknown[]) {
+        this.log("error", message, args);
+    }
+
+    private log(level: "debug" | "info" | "warn" | "error", message: string, args: unknown[]) {
+        if (Object.keys(this.context).length === 0) {
+            this.logger[level](message, ...args);
+        } else {
+            runWithLogContext(this.context, () => this.logger[level](message, ...args));
+        }
+    }
+}
+
+/**
+ * [время] [УРОВЕНЬ] [компонент] [поля контекста] сообщение
+ */
+function formatText(logEvent: log4js.LoggingEvent): string {
+    const context = Object.entries(getLogContext())
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(" ");
+
+    return `[${logEvent.startTime.toISOString()}] [${logEvent.level.levelStr}] [${logEvent.categoryName}]${context ? ` [${context}]` : ""} ${util.format(...logEvent.data)}`;
+}
+
+/**
+ * Объект JSON: время, уровень, компонент, поля контекста, сообщение и первая ошибка из аргументов со стеком
+ */
+function formatJson(logEvent: log4js.LoggingEvent): string {
+    const error = logEvent.data.find((arg) => arg instanceof Error) as Error | undefined;
+
+    return JSON.stringify({
+        time: logEvent.startTime.toISOString(),
+        level: logEvent.level.levelStr,
+        logger: logEvent.categoryName,
+        ...getLogContext(),
+        message: util.format(...logEvent.data.filter((arg) => arg !== error)),
+        ...(error && { error: { ...error, name: error.name, message: error.message, stack: error.stack } }),
+    });
+}
+
+export interface LoggingOptions {
+    level?: "trace" | "debug" | "info" | "warn" | "error";
+    format?: "text" | "json";
+    /** Приемник отформатированных строк вместо stdout/stderr, например для проверки логов в тестах */
+    output?: (line: string) => void;
 }
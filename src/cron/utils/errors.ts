@@ -0,0 +1,49 @@
+/**
+ * Запрошенные данные не найдены (в HTTP API - ответ 404)
+ */
+export class NotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "NotFoundError";
+    }
+}
+
+/**
+ * Некорректные параметры запроса, которые нельзя проверить схемой (в HTTP API - ответ 400)
+ */
+export class BadRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BadRequestError";
+    }
+}
+
+/**
+ * Запрос без действующего токена (в HTTP API - ответ 401)
+ */
+export class UnauthorizedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UnauthorizedError";
+    }
+}
+
+/**
+ * Действие недоступно (в HTTP API - ответ 403)
+ */
+export class ForbiddenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ForbiddenError";
+    }
+}
+
+/**
+ * Действие конфликтует с уже выполняющимся, например синхронизация уже запущена (в HTTP API - ответ 409)
+ */
+export class ConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConflictError";
+    }
+}
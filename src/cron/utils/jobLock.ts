@@ -0,0 +1,51 @@
+import knex from "#postgres/knex.js";
+import { Logger } from "./Logger.js";
+
+const logger = new Logger("JobLock");
+
+/**
+ * Запуск задачи под advisory lock Postgres: пока задача выполняется (в этом или другом процессе,
+ * например из CLI при работающем кроне контейнера), повторный запуск не начинается.
+ * Блокировка сессионная и держится на отдельном соединении из пула без открытой транзакции;
+ * она снимается после задачи, а при падении процесса - вместе с закрытием соединения
+ */
+export async function runExclusive<T>(jobName: string, run: () => Promise<T>): Promise<ExclusiveRunResult<T>> {
+    const key = `job:${jobName}`;
+    const connection = await knex.client.acquireConnection();
+    let unlocked = true;
+
+    try {
+        const { rows } = await knex.raw("select pg_try_advisory_lock(hashtext(?)) as locked", [key]).connection(connection);
+        if (!rows[0].locked) {
+            return { acquired: false };
+        }
+
+        unlocked = false;
+        try {
+            return { acquired: true, result: await run() };
+        } finally {
+            await knex.raw("select pg_advisory_unlock(hashtext(?))", [key]).connection(connection);
+            unlocked = true;
+        }
+    } finally {
+        if (unlocked) {
+            await knex.client.releaseConnection(connection);
+        } else {
+            // Соединение с невозможной к снятию блокировкой не возвращается в пул: закрытие сессии снимает ее
+            logger.warn(`Failed to release lock ${key} - closing its connection`);
+            await knex.client.destroyRawConnection(connection).catch(() => {});
+            await knex.client.releaseConnection(connection);
+        }
+    }
+}
+
+export type ExclusiveRunResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Результат запуска задачи синхронизации: already_running - предыдущий запуск еще не завершился,
+ * partial - задача не выполнена для части кабинетов (error - для каких), остальные обработаны
+ */
+export interface JobRunResult {
+    status: "succeeded" | "partial" | "already_running";
+    error?: string;
+}
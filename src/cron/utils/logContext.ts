@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Выполнение кода с контекстом логов: поля контекста (ID запуска, кабинет, таблица, ...) попадают
+ * во все строки логов, записанные внутри run, в том числе после await. Вложенный контекст дополняет внешний
+ */
+export function runWithLogContext<T>(context: LogContext, run: () => T): T {
+    return storage.run({ ...storage.getStore(), ...context }, run);
+}
+
+/**
+ * Текущий контекст логов
+ */
+export function getLogContext(): LogContext {
+    return storage.getStore() ?? {};
+}
+
+/**
+ * Поля контекста логов, например { correlation_id, job, run_id, seller, spreadsheet_id }
+ */
+export type LogContext = Record<string, string | number | undefined>;
@@ -0,0 +1,83 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from "prom-client";
+import knex from "#postgres/knex.js";
+import { Logger } from "./Logger.js";
+
+const logger = new Logger("Metrics");
+
+/**
+ * Реестр метрик Prometheus, отдается на /metrics. Метрики собираются в процессе приложения:
+ * запуски из консоли (npm run jobs) в них не попадают, кроме возраста последней синхронизации из журнала
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: "wb_tariffs_" });
+
+export const jobDurationSeconds = new Histogram({
+    name: "wb_tariffs_job_duration_seconds",
+    help: "Duration of job runs by job and result",
+    labelNames: ["job", "status"] as const,
+    buckets: [1, 5, 15, 30, 60, 120, 300, 600, 900, 1800],
+    registers: [metricsRegistry],
+});
+
+export const httpClientRequestDurationSeconds = new Histogram({
+    name: "wb_tariffs_http_client_request_duration_seconds",
+    help: "Duration of single external API request attempts (WB API), including failed ones",
+    labelNames: ["client", "path"] as const,
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [metricsRegistry],
+});
+
+export const httpClientResponsesTotal = new Counter({
+    name: "wb_tariffs_http_client_responses_total",
+    help: "External API request attempts by response status code ('error' - network error, 'timeout' - no response in time)",
+    labelNames: ["client", "path", "status"] as const,
+    registers: [metricsRegistry],
+});
+
+export const ratesRowsInsertedTotal = new Counter({
+    name: "wb_tariffs_rates_rows_inserted_total",
+    help: "Rate rows inserted with new tariff periods by rates kind",
+    labelNames: ["rates"] as const,
+    registers: [metricsRegistry],
+});
+
+export const tariffPeriodsClosedTotal = new Counter({
+    name: "wb_tariffs_tariff_periods_closed_total",
+    help: "Tariff periods closed by rates kind and reason: the rates changed or the owner is missing from the WB response",
+    labelNames: ["rates", "reason"] as const,
+    registers: [metricsRegistry],
+});
+
+export const sheetPublishTotal = new Counter({
+    name: "wb_tariffs_sheet_publish_total",
+    help: "Google Sheets writes by spreadsheet, sheet and result (updated, unchanged, appended, failed)",
+    labelNames: ["spreadsheet_id", "page_name", "status"] as const,
+    registers: [metricsRegistry],
+});
+
+/**
+ * Возраст последнего успешного запуска задач по кабинетам считается по журналу sync_runs при каждом запросе метрик,
+ * поэтому учитывает и запуски из консоли, и запуски до перезапуска приложения
+ */
+new Gauge({
+    name: "wb_tariffs_job_last_success_age_seconds",
+    help: "Seconds since the last successful run of the job (sync_runs)",
+    labelNames: ["job"] as const,
+    registers: [metricsRegistry],
+    async collect() {
+        try {
+            const rows: { job: string; age_seconds: string }[] = await knex("sync_runs")
+                .where("status", "succeeded")
+                .groupBy("job")
+                .select("job", knex.raw("extract(epoch from now() - max(finished_at)) as age_seconds"));
+
+            this.reset();
+            for (const row of rows) {
+                this.set({ job: row.job }, Number(row.age_seconds));
+            }
+        } catch (error) {
+            // Недоступность БД не должна ломать отдачу остальных метрик
+            logger.error("Failed to collect last successful run age:", error);
+        }
+    },
+});
@@ -0,0 +1,68 @@
+import { runSellerJob, SellerJobOptions } from "./sellerJob.js";
+import { SyncRunService } from "../services/SyncRunService.js";
+import { Seller } from "../services/SellerService.js";
+
+jest.mock("./jobLock.js", () => ({
+    runExclusive: jest.fn(async (_jobName: string, run: () => Promise<unknown>) => ({ acquired: true, result: await run() })),
+}));
+jest.mock("../services/SellerService.js", () => ({
+    SellerService: jest.fn().mockImplementation(() => ({
+        getActiveSellers: async () => [
+            { id: "seller-a", name: "a" },
+            { id: "seller-b", name: "b" },
+            { id: "seller-c", name: "c" },
+        ],
+    })),
+}));
+jest.mock("../services/SyncRunService.js", () => {
+    const syncRuns = { startRun: jest.fn(async () => "run-1"), finishRun: jest.fn(async () => {}), recordSkippedRun: jest.fn() };
+    return { SyncRunService: jest.fn().mockImplementation(() => syncRuns) };
+});
+
+const OPTIONS: SellerJobOptions = { job: "sync-rates", title: "Rates synchronization", loggerName: "SyncRates", trigger: "cli" };
+
+function getFinishRun(): jest.Mock {
+    return (new SyncRunService() as unknown as { finishRun: jest.Mock }).finishRun;
+}
+
+beforeEach(() => {
+    getFinishRun().mockClear();
+});
+
+describe("runSellerJob", () => {
+    it("finishes as partial when one seller fails and still processes the other sellers", async () => {
+        const processed: string[] = [];
+        const runForSeller = async (seller: Seller) => {
+            processed.push(seller.name);
+            if (seller.name === "b") throw new Error("invalid token");
+        };
+
+        const result = await runSellerJob(OPTIONS, runForSeller);
+
+        expect(processed).toEqual(["a", "b", "c"]);
+        expect(result).toEqual({ status: "partial", runId: "run-1", error: "Rates synchronization failed for 1 of 3 sellers: b" });
+
+        const [runId, reports, runError] = getFinishRun().mock.calls[0];
+        expect(runId).toBe("run-1");
+        expect(runError).toBeUndefined();
+        expect(reports.map((report: { seller_name: string; status: string }) => [report.seller_name, report.status])).toEqual([
+            ["a", "succeeded"],
+            ["b", "failed"],
+            ["c", "succeeded"],
+        ]);
+        expect(reports[1].error).toBe("invalid token");
+    });
+
+    it("fails when the job failed for every seller", async () => {
+        const runForSeller = async () => {
+            throw new Error("WB API is down");
+        };
+
+        await expect(runSellerJob(OPTIONS, runForSeller)).rejects.toThrow("Rates synchronization failed for 3 of 3 sellers: a, b, c");
+        expect(getFinishRun().mock.calls[0][2]).toBe("Rates synchronization failed for 3 of 3 sellers: a, b, c");
+    });
+
+    it("succeeds when every seller succeeded", async () => {
+        await expect(runSellerJob(OPTIONS, async () => {})).resolves.toEqual({ status: "succeeded", runId: "run-1" });
+    });
+});
@@ -0,0 +1,142 @@
+import { Logger } from "./Logger.js";
+import { JobRunResult, runExclusive } from "./jobLock.js";
+import { runWithLogContext } from "./logContext.js";
+import { ratesRowsInsertedTotal, sheetPublishTotal, tariffPeriodsClosedTotal } from "./metrics.js";
+import { Seller, SellerService } from "../services/SellerService.js";
+import { SellerSyncResult, SyncRunService, SyncTrigger } from "../services/SyncRunService.js";
+
+/**
+ * Запуск задачи по всем активным кабинетам продавцов: под блокировкой (повторный запуск пропускается)
+ * и с записью результатов по кабинетам в журнал sync_runs. Ошибка одного кабинета не останавливает остальные:
+ * если задача выполнена хотя бы для одного кабинета, запуск завершается со статусом partial, а не ошибкой,
+ * и зависящие задачи (публикация в таблицы) выполняются для остальных кабинетов.
+ * signal прерывает задачу перед следующим кабинетом
+ */
+export async function runSellerJob(
+    options: SellerJobOptions,
+    runForSeller: (seller: Seller, report: SellerSyncResult) => Promise<void>,
+): Promise<JobRunResult & { runId: string }> {
+    const logger = new Logger(options.loggerName);
+
+    const run = await runExclusive(options.job, () => runForEachSeller(options, logger, runForSeller));
+    if (!run.acquired) {
+        logger.warn(`${options.title} is already running - skipping`);
+        const runId = await new SyncRunService().recordSkippedRun(options.job, options.trigger, `${options.title} is already running`);
+        return { status: "already_running", runId };
+    }
+
+    return { ...run.result.outcome, runId: run.result.runId };
+}
+
+/**
+ * Обработка всех кабинетов, возвращает ID записи в журнале sync_runs. ID записи попадает в контекст логов как run_id
+ */
+async function runForEachSeller(
+    options: SellerJobOptions,
+    logger: Logger,
+    runForSeller: (seller: Seller, report: SellerSyncResult) => Promise<void>,
+): Promise<{ runId: string; outcome: JobRunResult }> {
+    const syncRuns = new SyncRunService();
+    const runId = await syncRuns.startRun(options.job, options.trigger);
+
+    return runWithLogContext({ run_id: runId }, async () => {
+        const outcome = await processSellers(options, logger, syncRuns, runId, runForSeller);
+        return { runId, outcome };
+    });
+}
+
+/**
+ * Обход кабинетов и запись их результатов в журнал. Ошибка - только если задача не выполнена ни для одного кабинета
+ */
+async function processSellers(
+    options: SellerJobOptions,
+    logger: Logger,
+    syncRuns: SyncRunService,
+    runId: string,
+    runForSeller: (seller: Seller, report: SellerSyncResult) => Promise<void>,
+): Promise<JobRunResult> {
+    logger.info(`Starting: ${options.title} (${options.trigger})...`);
+
+    const reports: SellerSyncResult[] = [];
+    let runError: string | undefined;
+    let outcome: JobRunResult = { status: "succeeded" };
+
+    try {
+        const sellers = await new SellerService().getActiveSellers();
+        logger.info(`Found ${sellers.length} active sellers`);
+
+        // Ошибка одного кабинета (например, невалидный токен) не останавливает остальные
+        const failedSellers: string[] = [];
+        for (const seller of sellers) {
+            options.signal?.throwIfAborted();
+
+            const report: SellerSyncResult = { seller_id: seller.id, seller_name: seller.name, status: "succeeded", counts: {}, spreadsheets: [] };
+            reports.push(report);
+            try {
+                await runWithLogContext({ seller: seller.name }, () => runForSeller(seller, report));
+            } catch (error) {
+                report.status = "failed";
+                report.error = error instanceof Error ? error.message : String(error);
+                failedSellers.push(seller.name);
+                logger.error(`${options.title} failed for seller ${seller.name}:`, error);
+            }
+            recordSellerMetrics(report);
+        }
+
+        if (failedSellers.length > 0) {
+            const message = `${options.title} failed for ${failedSellers.length} of ${sellers.length} sellers: ${failedSellers.join(", ")}`;
+            if (failedSellers.length === sellers.length) {
+                throw new Error(message);
+            }
+            outcome = { status: "partial", error: message };
+        }
+    } catch (error) {
+        runError = error instanceof Error ? error.message : String(error);
+        throw error;
+    } finally {
+        // Ошибка записи в журнал не должна скрывать ошибку задачи
+        await syncRuns.finishRun(runId, reports, runError).catch((error) => logger.error(`Failed to save sync run ${runId}:`, error));
+    }
+
+    if (outcome.status === "partial") {
+        logger.warn(`${options.title} completed partially: ${outcome.error}`);
+    } else {
+        logger.info(`${options.title} completed successfully!`);
+    }
+    return outcome;
+}
+
+/**
+ * Метрики по результатам кабинета: сохраненные тарифы, закрытые периоды и запись в таблицы
+ */
+function recordSellerMetrics(report: SellerSyncResult): void {
+    for (const [rates, counts] of Object.entries(report.counts)) {
+        ratesRowsInsertedTotal.inc({ rates }, counts.rates_count);
+        tariffPeriodsClosedTotal.inc({ rates, reason: "rates_changed" }, counts.closed_periods_count);
+        tariffPeriodsClosedTotal.inc({ rates, reason: "missing_from_response" }, counts.missing_owners_count);
+    }
+    for (const outcome of report.spreadsheets) {
+        sheetPublishTotal.inc({ spreadsheet_id: outcome.spreadsheet_id, page_name: outcome.page_name, status: outcome.status });
+    }
+}
+
+/**
+ * Ошибка кабинета, если запись хотя бы в одну таблицу не удалась (остальные листы к этому моменту уже записаны)
+ */
+export function assertSpreadsheetsUpdated(report: SellerSyncResult): void {
+    const failedSpreadsheets = report.spreadsheets.filter((outcome) => outcome.status === "failed");
+    if (failedSpreadsheets.length > 0) {
+        const failedSheets = failedSpreadsheets.map((outcome) => `${outcome.spreadsheet_id} '${outcome.page_name}'`).join(", ");
+        throw new Error(`Failed to update ${failedSpreadsheets.length} of ${report.spreadsheets.length} sheets: ${failedSheets}`);
+    }
+}
+
+export interface SellerJobOptions {
+    /** Имя задачи: ключ блокировки и значение job в журнале */
+    job: string;
+    /** Название для логов и ошибок, например "Rates synchronization" */
+    title: string;
+    loggerName: string;
+    trigger: SyncTrigger;
+    signal?: AbortSignal;
+}
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { z } from "zod";
+import { AcceptanceQueryService } from "#cron/services/AcceptanceQueryService.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { paginationSchema } from "../utils/queryParams.js";
+
+const dayParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const slotsQuerySchema = z
+    .object({
+        seller_id: z.string().uuid().optional(),
+        max_coefficient: z.coerce.number().min(0).default(1),
+        box_type: z.string().min(1).optional(),
+        warehouse_name: z.string().min(1).optional(),
+        geo_name: z.string().min(1).optional(),
+        from: dayParamSchema.optional(),
+        to: dayParamSchema.optional(),
+    })
+    .merge(paginationSchema);
+
+/**
+ * Маршруты чтения коэффициентов приемки
+ */
+export function createAcceptanceRouter(): Router {
+    const router = Router();
+    const acceptanceQuery = new AcceptanceQueryService();
+
+    /**
+     * Ближайшие бесплатные (коэффициент 0) или дешевые (до max_coefficient) слоты приемки
+     */
+    router.get(
+        "/acceptance/slots",
+        asyncHandler(async (req, res) => {
+            const query = slotsQuerySchema.parse(req.query);
+
+            const filters = {
+                sellerId: query.seller_id,
+                maxCoefficient: query.max_coefficient,
+                boxTypeName: query.box_type,
+                warehouseName: query.warehouse_name,
+                geoName: query.geo_name,
+                from: query.from,
+                to: query.to,
+            };
+
+            res.json(await acceptanceQuery.getUpcomingSlots(filters, query));
+        }),
+    );
+
+    return router;
+}
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { CostCalculator } from "#cron/services/CostCalculator.js";
+import { costCalculationInputSchema, warehouseRankingInputSchema } from "#cron/services/costCalculation.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+/**
+ * Маршруты калькулятора стоимости логистики и хранения
+ */
+export function createCalculatorRouter(): Router {
+    const router = Router();
+    const calculator = new CostCalculator();
+
+    /**
+     * Стоимость логистики FBO, FBS и хранения товара на складе по тарифам на момент at (по умолчанию - сейчас)
+     */
+    router.get(
+        "/calculator/cost",
+        asyncHandler(async (req, res) => {
+            const input = costCalculationInputSchema.parse(req.query);
+
+            res.json({ data: await calculator.calculate(input) });
+        }),
+    );
+
+    /**
+     * Рейтинг складов по стоимости логистики FBO и хранения товара за storage_days дней
+     */
+    router.get(
+        "/calculator/warehouses",
+        asyncHandler(async (req, res) => {
+            const input = warehouseRankingInputSchema.parse(req.query);
+
+            res.json({ data: await calculator.rankWarehouses(input) });
+        }),
+    );
+
+    return router;
+}
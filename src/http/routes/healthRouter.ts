@@ -0,0 +1,33 @@
+import { Router } from "express";
+import { JobScheduler } from "#cron/jobs/JobScheduler.js";
+import { HealthService } from "#cron/services/HealthService.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+/**
+ * Проверки живости и готовности: 200 - все проверки пройдены, 503 - хотя бы одна не пройдена
+ */
+export function createHealthRouter(scheduler?: JobScheduler): Router {
+    const router = Router();
+    const health = new HealthService(scheduler);
+
+    /**
+     * Живость процесса и планировщика задач
+     */
+    router.get("/health/live", (req, res) => {
+        const report = health.checkLiveness();
+        res.status(report.status === "ok" ? 200 : 503).json(report);
+    });
+
+    /**
+     * Готовность: БД, миграции, ключи доступа и последняя успешная синхронизация
+     */
+    router.get(
+        "/health/ready",
+        asyncHandler(async (req, res) => {
+            const report = await health.checkReadiness();
+            res.status(report.status === "ok" ? 200 : 503).json(report);
+        }),
+    );
+
+    return router;
+}
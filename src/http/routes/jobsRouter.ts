@@ -0,0 +1,63 @@
+import { Router } from "express";
+import { z } from "zod";
+import env from "#config/env/env.js";
+import { JOBS } from "#cron/jobs/registry.js";
+import { runJob } from "#cron/jobs/runJob.js";
+import { getJobSchedules } from "#cron/jobs/schedules.js";
+import { ConflictError } from "#cron/utils/errors.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { requireBearerToken } from "../utils/requireBearerToken.js";
+
+const runJobQuerySchema = z.object({
+    dependents: z.enum(["true", "false"]).default("true"),
+});
+
+/**
+ * Маршруты задач: список с действующими расписаниями и ручной запуск (по токену SYNC_TRIGGER_TOKEN)
+ */
+export function createJobsRouter(): Router {
+    const router = Router();
+
+    /**
+     * Задачи реестра, их расписания и зависимости
+     */
+    router.get(
+        "/jobs",
+        asyncHandler(async (req, res) => {
+            const schedules = new Map((await getJobSchedules()).map((schedule) => [schedule.job, schedule]));
+
+            res.json({
+                data: JOBS.map((job) => ({
+                    name: job.name,
+                    description: job.description,
+                    schedule: schedules.get(job.name)?.schedule ?? null,
+                    schedule_source: schedules.get(job.name)?.source ?? "default",
+                    default_schedule: job.defaultSchedule,
+                    timeout_ms: job.timeoutMs,
+                    depends_on: job.dependsOn,
+                })),
+            });
+        }),
+    );
+
+    /**
+     * Запуск задачи и зависящих от нее задач (dependents=false - только самой задачи) через ту же
+     * блокировку, что и по расписанию. Ответ после завершения: 409 - задача уже выполняется,
+     * 500 - ошибка задачи или ее части (кабинета)
+     */
+    router.post(
+        "/jobs/:name/run",
+        requireBearerToken(env.SYNC_TRIGGER_TOKEN, "Manual job trigger is disabled: SYNC_TRIGGER_TOKEN is not set"),
+        asyncHandler(async (req, res) => {
+            const query = runJobQuerySchema.parse(req.query);
+            const runs = await runJob(req.params.name, "http", query.dependents === "true");
+
+            if (runs[0].status === "already_running") {
+                throw new ConflictError(`Job ${req.params.name} is already running`);
+            }
+            res.status(runs.some((run) => run.status === "failed" || run.status === "partial") ? 500 : 200).json({ runs });
+        }),
+    );
+
+    return router;
+}
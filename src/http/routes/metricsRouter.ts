@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { metricsRegistry } from "#cron/utils/metrics.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+/**
+ * Метрики Prometheus
+ */
+export function createMetricsRouter(): Router {
+    const router = Router();
+
+    router.get(
+        "/metrics",
+        asyncHandler(async (req, res) => {
+            const metrics = await metricsRegistry.metrics();
+            res.type(metricsRegistry.contentType).send(metrics);
+        }),
+    );
+
+    return router;
+}
@@ -0,0 +1,132 @@
+import { Router } from "express";
+import { z } from "zod";
+import { RATES_SORT_KEYS, RatesQueryService, RatesSortKey } from "#cron/services/RatesQueryService.js";
+import { RatesTimelineService } from "#cron/services/RatesTimelineService.js";
+import { ratesAsOfInputSchema, ratesBetweenInputSchema } from "#cron/services/ratesTimeline.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { dateParamSchema, paginationSchema, sortDirectionSchema } from "../utils/queryParams.js";
+
+const filtersSchema = z.object({
+    seller_id: z.string().uuid().optional(),
+    geo_name: z.string().min(1).optional(),
+    warehouse_name: z.string().min(1).optional(),
+});
+
+const sortSchema = z.object({
+    sort: z.enum(RATES_SORT_KEYS as [RatesSortKey, ...RatesSortKey[]]).optional(),
+    order: sortDirectionSchema,
+});
+
+const warehousesQuerySchema = filtersSchema.extend({
+    is_active: z
+        .enum(["true", "false"])
+        .transform((value) => value === "true")
+        .optional(),
+});
+
+const currentRatesQuerySchema = filtersSchema.merge(sortSchema).merge(paginationSchema);
+
+const historyQuerySchema = currentRatesQuerySchema.extend({
+    from: dateParamSchema.optional(),
+    to: dateParamSchema.optional(),
+});
+
+/**
+ * Маршруты чтения тарифов складов
+ */
+export function createRatesRouter(): Router {
+    const router = Router();
+    const ratesQuery = new RatesQueryService();
+    const ratesTimeline = new RatesTimelineService();
+
+    /**
+     * Актуальные тарифы (те же данные, что публикуются в Google Sheets)
+     */
+    router.get(
+        "/rates/current",
+        asyncHandler(async (req, res) => {
+            const query = currentRatesQuerySchema.parse(req.query);
+            const sort = query.sort ? { key: query.sort, direction: query.order } : undefined;
+
+            res.json(await ratesQuery.getCurrentRatesPage(query, sort, query));
+        }),
+    );
+
+    /**
+     * История тарифов по всем складам
+     */
+    router.get(
+        "/rates/history",
+        asyncHandler(async (req, res) => {
+            const query = historyQuerySchema.parse(req.query);
+            const sort = query.sort ? { key: query.sort, direction: query.order } : undefined;
+
+            res.json(await ratesQuery.getRatesHistoryPage(query, sort, query));
+        }),
+    );
+
+    /**
+     * Тарифы коробов, монопаллет и возврата, действовавшие в момент at (например, для сверки счетов WB)
+     */
+    router.get(
+        "/rates/as-of",
+        asyncHandler(async (req, res) => {
+            const input = ratesAsOfInputSchema.parse(req.query);
+
+            res.json({ data: await ratesTimeline.asOf(input) });
+        }),
+    );
+
+    /**
+     * Хронология тарифов по складам: периоды, действовавшие в интервале from-to, постранично (limit, cursor)
+     */
+    router.get(
+        "/rates/timeline",
+        asyncHandler(async (req, res) => {
+            const input = ratesBetweenInputSchema.parse(req.query);
+
+            res.json(await ratesTimeline.between(input));
+        }),
+    );
+
+    /**
+     * Список складов с признаком активности и временем последнего появления в ответе WB
+     */
+    router.get(
+        "/warehouses",
+        asyncHandler(async (req, res) => {
+            const query = warehousesQuerySchema.parse(req.query);
+
+            res.json({ data: await ratesQuery.getWarehouses(query) });
+        }),
+    );
+
+    /**
+     * История тарифов одного склада
+     */
+    router.get(
+        "/warehouses/:warehouseId/rates/history",
+        asyncHandler(async (req, res) => {
+            const { warehouseId } = z.object({ warehouseId: z.string().uuid() }).parse(req.params);
+            const query = historyQuerySchema.parse(req.query);
+            const sort = query.sort ? { key: query.sort, direction: query.order } : undefined;
+
+            res.json(await ratesQuery.getRatesHistoryPage({ ...query, warehouse_id: warehouseId }, sort, query));
+        }),
+    );
+
+    /**
+     * Хронология тарифов одного склада
+     */
+    router.get(
+        "/warehouses/:warehouseId/rates/timeline",
+        asyncHandler(async (req, res) => {
+            const { warehouseId } = z.object({ warehouseId: z.string().uuid() }).parse(req.params);
+            const input = ratesBetweenInputSchema.parse({ ...req.query, warehouse_id: warehouseId });
+
+            res.json(await ratesTimeline.between(input));
+        }),
+    );
+
+    return router;
+}
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { z } from "zod";
+import { SYNC_RUN_STATUSES, SyncRunService } from "#cron/services/SyncRunService.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { paginationSchema } from "../utils/queryParams.js";
+
+const syncRunsQuerySchema = z
+    .object({
+        job: z.string().min(1).optional(),
+        status: z.enum(SYNC_RUN_STATUSES).optional(),
+        seller_id: z.string().uuid().optional(),
+        spreadsheet_id: z.string().min(1).optional(),
+    })
+    .merge(paginationSchema)
+    .extend({ limit: z.coerce.number().int().min(1).max(1000).default(20) });
+
+/**
+ * Маршруты журнала запусков синхронизации
+ */
+export function createSyncRunsRouter(): Router {
+    const router = Router();
+    const syncRuns = new SyncRunService();
+
+    /**
+     * Последние запуски задач по кабинетам с результатами по кабинетам и таблицам
+     */
+    router.get(
+        "/sync-runs",
+        asyncHandler(async (req, res) => {
+            const query = syncRunsQuerySchema.parse(req.query);
+
+            const filters = {
+                job: query.job,
+                status: query.status,
+                sellerId: query.seller_id,
+                spreadsheetId: query.spreadsheet_id,
+            };
+
+            res.json(await syncRuns.getRuns(filters, query));
+        }),
+    );
+
+    return router;
+}
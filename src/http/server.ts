@@ -0,0 +1,86 @@
+import express, { NextFunction, Request, Response } from "express";
+import { Server } from "http";
+import { ZodError } from "zod";
+import { JobScheduler } from "#cron/jobs/JobScheduler.js";
+import { Logger } from "#cron/utils/Logger.js";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from "#cron/utils/errors.js";
+import { createAcceptanceRouter } from "./routes/acceptanceRouter.js";
+import { createCalculatorRouter } from "./routes/calculatorRouter.js";
+import { createHealthRouter } from "./routes/healthRouter.js";
+import { createJobsRouter } from "./routes/jobsRouter.js";
+import { createMetricsRouter } from "./routes/metricsRouter.js";
+import { createRatesRouter } from "./routes/ratesRouter.js";
+import { createSyncRunsRouter } from "./routes/syncRunsRouter.js";
+
+const logger = new Logger("HttpServer");
+
+/**
+ * Создание express-приложения с API чтения данных
+ */
+export function createHttpApp(options: HttpAppOptions = {}) {
+    const app = express();
+
+    app.disable("x-powered-by");
+
+    app.use(createHealthRouter(options.scheduler));
+    app.use(createMetricsRouter());
+    app.use("/api", createRatesRouter());
+    app.use("/api", createAcceptanceRouter());
+    app.use("/api", createCalculatorRouter());
+    app.use("/api", createSyncRunsRouter());
+    app.use("/api", createJobsRouter());
+
+    app.use((req: Request, res: Response) => {
+        res.status(404).json({ error: "Not found" });
+    });
+
+    app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+        if (error instanceof ZodError) {
+            res.status(400).json({ error: "Invalid request", details: error.issues });
+            return;
+        }
+        if (error instanceof BadRequestError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        if (error instanceof NotFoundError) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof UnauthorizedError) {
+            res.status(401).json({ error: error.message });
+            return;
+        }
+        if (error instanceof ForbiddenError) {
+            res.status(403).json({ error: error.message });
+            return;
+        }
+        if (error instanceof ConflictError) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+
+        logger.error(`Request ${req.method} ${req.originalUrl} failed:`, error);
+        res.status(500).json({ error: "Internal server error" });
+    });
+
+    return app;
+}
+
+/**
+ * Запуск HTTP-сервера
+ */
+export function startHttpServer(port: number, options: HttpAppOptions = {}): Promise<Server> {
+    return new Promise((resolve, reject) => {
+        const server = createHttpApp(options).listen(port, () => {
+            logger.info(`HTTP server listening on port ${port}`);
+            resolve(server);
+        });
+        server.once("error", reject);
+    });
+}
+
+export interface HttpAppOptions {
+    /** Планировщик задач приложения, проверяется в /health/live и /health/ready */
+    scheduler?: JobScheduler;
+}
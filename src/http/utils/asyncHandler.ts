@@ -0,0 +1,10 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+/**
+ * Обертка для async-обработчиков: передает ошибки промиса в обработчик ошибок express
+ */
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/**
+ * Общие схемы параметров запроса
+ */
+export const paginationSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const sortDirectionSchema = z.enum(["asc", "desc"]).default("asc");
+
+export const dateParamSchema = z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+    .transform((value) => new Date(value));
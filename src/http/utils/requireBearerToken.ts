@@ -0,0 +1,27 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+import { ForbiddenError, UnauthorizedError } from "#cron/utils/errors.js";
+
+/**
+ * Проверка заголовка Authorization: Bearer <token>. Без заданного токена маршруты недоступны
+ */
+export function requireBearerToken(token: string | undefined, disabledMessage: string): RequestHandler {
+    // Сравниваются хеши, чтобы длина токена не влияла на время сравнения
+    const expected = token ? createHash("sha256").update(token).digest() : null;
+
+    return (req, res, next) => {
+        if (!expected) {
+            next(new ForbiddenError(disabledMessage));
+            return;
+        }
+
+        const [scheme, value] = (req.headers.authorization ?? "").split(" ");
+        const actual = createHash("sha256").update(value ?? "").digest();
+        if (scheme !== "Bearer" || !timingSafeEqual(actual, expected)) {
+            next(new UnauthorizedError("Invalid or missing bearer token"));
+            return;
+        }
+
+        next();
+    };
+}
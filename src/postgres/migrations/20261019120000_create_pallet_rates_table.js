@@ -0,0 +1,43 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.createTable("pallet_rates", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        
+        // Внешние ключи
+        table.uuid("warehouse_id").notNullable();
+        table.uuid("tariff_period_id").notNullable();
+        
+        // Логистика (3 поля)
+        table.decimal("pallet_delivery_base", 10, 2).notNullable().comment("Логистика, первый литр, ₽");
+        table.decimal("pallet_delivery_coef", 10, 2).notNullable().comment("Коэффициент Логистика");
+        table.decimal("pallet_delivery_liter", 10, 2).notNullable().comment("Логистика, дополнительный литр, ₽");
+        
+        // Хранение (2 поля)
+        table.decimal("pallet_storage_coef", 10, 2).notNullable().comment("Коэффициент Хранение");
+        table.decimal("pallet_storage_value", 10, 2).notNullable().comment("Хранение, ₽ за монопаллету в день");
+        
+        table.timestamps(true, true);
+        
+        // Внешние ключи
+        table.foreign("warehouse_id").references("id").inTable("warehouses").onDelete("CASCADE");
+        table.foreign("tariff_period_id").references("id").inTable("tariff_periods").onDelete("CASCADE");
+        
+        // Индексы
+        table.index("warehouse_id");
+        table.index("tariff_period_id");
+        
+        // Уникальный индекс - один тариф на склад в период
+        table.unique(["warehouse_id", "tariff_period_id"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.dropTable("pallet_rates");
+}
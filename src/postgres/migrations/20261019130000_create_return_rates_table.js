@@ -0,0 +1,50 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.createTable("return_rates", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        
+        // Внешние ключи
+        table.uuid("warehouse_id").notNullable();
+        table.uuid("tariff_period_id").notNullable();
+        
+        // Возврат КГТ (3 поля)
+        table.decimal("return_kgt_office_base", 10, 2).notNullable().comment("Возврат КГТ на ПВЗ, первый литр, ₽");
+        table.decimal("return_kgt_office_liter", 10, 2).notNullable().comment("Возврат КГТ на ПВЗ, дополнительный литр, ₽");
+        table.decimal("return_kgt_return", 10, 2).notNullable().comment("Возврат бракованного КГТ продавцу, ₽");
+        
+        // Возврат СГТ (2 поля)
+        table.decimal("return_srg_office", 10, 2).notNullable().comment("Возврат СГТ на ПВЗ, ₽");
+        table.decimal("return_srg_return", 10, 2).notNullable().comment("Возврат бракованного СГТ продавцу, ₽");
+        
+        // Возврат остальных товаров (5 полей)
+        table.decimal("return_sup_courier_base", 10, 2).notNullable().comment("Возврат курьером, первый литр, ₽");
+        table.decimal("return_sup_courier_liter", 10, 2).notNullable().comment("Возврат курьером, дополнительный литр, ₽");
+        table.decimal("return_sup_office_base", 10, 2).notNullable().comment("Возврат на ПВЗ, первый литр, ₽");
+        table.decimal("return_sup_office_liter", 10, 2).notNullable().comment("Возврат на ПВЗ, дополнительный литр, ₽");
+        table.decimal("return_sup_return", 10, 2).notNullable().comment("Возврат бракованного товара продавцу, ₽");
+        
+        table.timestamps(true, true);
+        
+        // Внешние ключи
+        table.foreign("warehouse_id").references("id").inTable("warehouses").onDelete("CASCADE");
+        table.foreign("tariff_period_id").references("id").inTable("tariff_periods").onDelete("CASCADE");
+        
+        // Индексы
+        table.index("warehouse_id");
+        table.index("tariff_period_id");
+        
+        // Уникальный индекс - один тариф на склад в период
+        table.unique(["warehouse_id", "tariff_period_id"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.dropTable("return_rates");
+}
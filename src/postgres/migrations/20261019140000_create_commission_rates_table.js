@@ -0,0 +1,54 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("subjects", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        table.integer("wb_subject_id").notNullable().unique().comment("ID предмета в WB");
+        table.string("subject_name").notNullable().comment("Название предмета");
+        table.integer("wb_parent_id").notNullable().comment("ID родительской категории в WB");
+        table.string("parent_name").notNullable().comment("Название родительской категории");
+        table.timestamps(true, true);
+        
+        table.index("wb_parent_id");
+    });
+
+    return knex.schema.createTable("commission_rates", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        
+        // Внешние ключи
+        table.uuid("subject_id").notNullable();
+        table.uuid("tariff_period_id").notNullable();
+        
+        // Комиссии по моделям продаж, %
+        table.decimal("commission_fbo", 10, 2).notNullable().comment("Склад WB (FBO), %");
+        table.decimal("commission_fbs", 10, 2).notNullable().comment("Маркетплейс (FBS), %");
+        table.decimal("commission_dbs", 10, 2).notNullable().comment("Витрина (DBS), %");
+        table.decimal("commission_edbs", 10, 2).notNullable().comment("Витрина экспресс (EDBS), %");
+        table.decimal("commission_pickup", 10, 2).notNullable().comment("Самовывоз из магазина продавца (C&C), %");
+        table.decimal("commission_booking", 10, 2).notNullable().comment("Бронирование, %");
+        
+        table.timestamps(true, true);
+        
+        // Внешние ключи
+        table.foreign("subject_id").references("id").inTable("subjects").onDelete("CASCADE");
+        table.foreign("tariff_period_id").references("id").inTable("tariff_periods").onDelete("CASCADE");
+        
+        // Индексы
+        table.index("subject_id");
+        table.index("tariff_period_id");
+        
+        // Уникальный индекс - одна комиссия на предмет в период
+        table.unique(["subject_id", "tariff_period_id"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.dropTable("commission_rates");
+    return knex.schema.dropTable("subjects");
+}
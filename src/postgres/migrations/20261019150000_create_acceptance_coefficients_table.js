@@ -0,0 +1,60 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("acceptance_coefficients", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        
+        // Склад: связь с таблицей складов по названию (сортировочных центров в ней может не быть)
+        table.uuid("warehouse_id").nullable();
+        table.integer("wb_warehouse_id").notNullable().comment("ID склада в WB");
+        table.string("warehouse_name").notNullable().comment("Название склада");
+        table.boolean("is_sorting_center").notNullable().defaultTo(false).comment("Сортировочный центр");
+        
+        // Слот приемки
+        table.date("date").notNullable().comment("Дата приемки");
+        table.integer("box_type_id").nullable().comment("ID типа поставки");
+        table.string("box_type_name").notNullable().comment("Тип поставки");
+        
+        // Коэффициенты
+        table.decimal("coefficient", 10, 2).notNullable().comment("Коэффициент приемки: -1 - недоступна, 0 - бесплатно");
+        table.boolean("allow_unload").notNullable().comment("Доступна ли отгрузка на склад");
+        table.decimal("storage_coef", 10, 2).nullable().comment("Коэффициент хранения, %");
+        table.decimal("delivery_coef", 10, 2).nullable().comment("Коэффициент логистики, %");
+        
+        table.timestamp("observed_at").notNullable().comment("Когда WB отдал это значение");
+        table.timestamps(true, true);
+        
+        table.foreign("warehouse_id").references("id").inTable("warehouses").onDelete("SET NULL");
+        
+        // Индексы
+        table.index("warehouse_id");
+        table.index("date");
+        
+        // Поиск последнего наблюдения по слоту
+        table.index(["wb_warehouse_id", "date", "box_type_name", "observed_at"]);
+    });
+
+    // Последнее известное состояние будущих слотов, на которые сейчас можно отгрузить поставку
+    return knex.raw(`
+        CREATE VIEW upcoming_acceptance_slots AS
+        SELECT latest.*
+        FROM (
+            SELECT DISTINCT ON (wb_warehouse_id, date, box_type_name) acceptance_coefficients.*
+            FROM acceptance_coefficients
+            WHERE date >= CURRENT_DATE
+            ORDER BY wb_warehouse_id, date, box_type_name, observed_at DESC
+        ) latest
+        WHERE latest.coefficient >= 0 AND latest.allow_unload
+    `);
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.raw("DROP VIEW IF EXISTS upcoming_acceptance_slots");
+    return knex.schema.dropTable("acceptance_coefficients");
+}
@@ -0,0 +1,96 @@
+const SELLER_TABLES = ["spreadsheets", "box_rates", "pallet_rates", "return_rates", "commission_rates", "acceptance_coefficients"];
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("sellers", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        table.string("name").notNullable().unique().comment("Название кабинета продавца");
+        table.text("wb_token").notNullable().comment("Токен WB API кабинета");
+        table.boolean("is_active").notNullable().defaultTo(true).comment("Участвует ли кабинет в синхронизации");
+        table.timestamps(true, true);
+    });
+
+    // Кабинеты создает сид sellers.js. Здесь кабинет default создается, только если уже есть накопленные
+    // данные: они относятся к единственному кабинету из WB_TOKEN, и без токена миграция не выполняется
+    const hasData = await hasSellerData(knex);
+    let defaultSellerId = null;
+    if (hasData) {
+        if (!process.env.WB_TOKEN) {
+            throw new Error("WB_TOKEN is required to assign existing rates and spreadsheets to the default seller");
+        }
+        const [defaultSeller] = await knex("sellers").insert({ name: "default", wb_token: process.env.WB_TOKEN }).returning("id");
+        defaultSellerId = defaultSeller.id;
+    }
+
+    for (const tableName of SELLER_TABLES) {
+        await knex.schema.alterTable(tableName, (table) => {
+            table.uuid("seller_id").nullable();
+        });
+        if (defaultSellerId) {
+            await knex(tableName).update({ seller_id: defaultSellerId });
+        }
+        await knex.schema.alterTable(tableName, (table) => {
+            table.uuid("seller_id").notNullable().alter();
+            table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+            table.index("seller_id");
+        });
+    }
+
+    // Последнее состояние слотов приемки считается отдельно для каждого кабинета
+    await knex.raw("DROP VIEW upcoming_acceptance_slots");
+    return knex.raw(`
+        CREATE VIEW upcoming_acceptance_slots AS
+        SELECT latest.*
+        FROM (
+            SELECT DISTINCT ON (seller_id, wb_warehouse_id, date, box_type_name) acceptance_coefficients.*
+            FROM acceptance_coefficients
+            WHERE date >= CURRENT_DATE
+            ORDER BY seller_id, wb_warehouse_id, date, box_type_name, observed_at DESC
+        ) latest
+        WHERE latest.coefficient >= 0 AND latest.allow_unload
+    `);
+}
+
+/**
+ * Есть ли строки хотя бы в одной из таблиц, которые переходят к кабинетам
+ *
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<boolean>}
+ */
+async function hasSellerData(knex) {
+    for (const tableName of SELLER_TABLES) {
+        if (await knex(tableName).first()) return true;
+    }
+    return false;
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.raw("DROP VIEW upcoming_acceptance_slots");
+
+    for (const tableName of SELLER_TABLES) {
+        await knex.schema.alterTable(tableName, (table) => {
+            table.dropColumn("seller_id");
+        });
+    }
+
+    await knex.raw(`
+        CREATE VIEW upcoming_acceptance_slots AS
+        SELECT latest.*
+        FROM (
+            SELECT DISTINCT ON (wb_warehouse_id, date, box_type_name) acceptance_coefficients.*
+            FROM acceptance_coefficients
+            WHERE date >= CURRENT_DATE
+            ORDER BY wb_warehouse_id, date, box_type_name, observed_at DESC
+        ) latest
+        WHERE latest.coefficient >= 0 AND latest.allow_unload
+    `);
+
+    return knex.schema.dropTable("sellers");
+}
@@ -0,0 +1,26 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.alterTable("spreadsheets", (table) => {
+        table.string("page_name").nullable().comment("Название листа с тарифами, по умолчанию SPREADSHEET_PAGE_NAME");
+        table.jsonb("columns").nullable().comment("Колонки листа в нужном порядке, по умолчанию все");
+        table.jsonb("geo_names").nullable().comment("Фильтр по регионам");
+        table.jsonb("warehouse_names").nullable().comment("Фильтр по складам");
+        table.string("sort_key").nullable().comment("Колонка сортировки, по умолчанию коэффициент хранения");
+        table.string("sort_direction").notNullable().defaultTo("asc").comment("Направление сортировки: asc | desc");
+        table.string("locale").notNullable().defaultTo("ru").comment("Язык заголовков: ru | en");
+        table.string("timezone").notNullable().defaultTo("Europe/Moscow").comment("Часовой пояс для дат");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.alterTable("spreadsheets", (table) => {
+        table.dropColumns("page_name", "columns", "geo_names", "warehouse_names", "sort_key", "sort_direction", "locale", "timezone");
+    });
+}
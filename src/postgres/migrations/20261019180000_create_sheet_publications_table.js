@@ -0,0 +1,25 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.createTable("sheet_publications", (table) => {
+        table.string("spreadsheet_id").notNullable();
+        table.string("page_name").notNullable();
+
+        table.string("content_hash", 64).notNullable().comment("SHA-256 последнего записанного содержимого листа");
+        table.integer("rows_count").notNullable().comment("Количество записанных строк");
+        table.timestamp("published_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.primary(["spreadsheet_id", "page_name"]);
+        table.foreign("spreadsheet_id").references("spreadsheet_id").inTable("spreadsheets").onDelete("CASCADE");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.dropTable("sheet_publications");
+}
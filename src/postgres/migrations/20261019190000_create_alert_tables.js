@@ -0,0 +1,52 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("alert_rules", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        table.uuid("seller_id").notNullable();
+
+        table.string("name").notNullable().comment("Название правила");
+        table.string("field").notNullable().comment("Поле тарифов коробов, например box_delivery_coef");
+        table.string("condition").notNullable().comment("above | below - порог значения, rise_percent | fall_percent - изменение в процентах");
+        table.decimal("value", 10, 2).notNullable().comment("Порог значения или изменения в процентах");
+        table.string("geo_name").nullable().comment("Фильтр по региону, null - все");
+        table.string("warehouse_name").nullable().comment("Фильтр по складу, null - все");
+
+        table.text("webhook_url").notNullable().comment("Исходящий вебхук для уведомлений");
+        table.integer("cooldown_minutes").notNullable().defaultTo(60).comment("Минимальный интервал между уведомлениями по одному складу");
+        table.boolean("is_active").notNullable().defaultTo(true);
+
+        table.timestamps(true, true);
+
+        table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+        table.unique(["seller_id", "name"]);
+    });
+
+    await knex.schema.createTable("alert_notifications", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        table.uuid("rule_id").notNullable();
+        table.uuid("warehouse_id").notNullable();
+
+        table.string("dedup_key").notNullable().comment("Склад и начало периода тарифов, по которым сработало правило");
+        table.text("message").notNullable();
+        table.string("status").notNullable().comment("sent | failed");
+        table.text("error").nullable();
+        table.timestamp("created_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.foreign("rule_id").references("id").inTable("alert_rules").onDelete("CASCADE");
+        table.foreign("warehouse_id").references("id").inTable("warehouses").onDelete("CASCADE");
+        table.index(["rule_id", "warehouse_id", "created_at"]);
+        table.index(["rule_id", "dedup_key"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.dropTable("alert_notifications");
+    await knex.schema.dropTable("alert_rules");
+}
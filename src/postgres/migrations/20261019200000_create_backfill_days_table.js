@@ -0,0 +1,24 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.createTable("backfill_days", (table) => {
+        table.uuid("seller_id").notNullable();
+        table.date("day").notNullable().comment("Дата, за которую загружены тарифы коробов");
+
+        table.integer("tariff_periods_count").notNullable().comment("Количество созданных периодов");
+        table.timestamp("completed_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.primary(["seller_id", "day"]);
+        table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.dropTable("backfill_days");
+}
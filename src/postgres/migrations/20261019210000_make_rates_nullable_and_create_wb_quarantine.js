@@ -0,0 +1,73 @@
+/** Поля тарифов, которые WB может отдавать как "-" (значение недоступно) */
+const RATE_FIELDS = {
+    box_rates: [
+        "box_delivery_base",
+        "box_delivery_coef",
+        "box_delivery_liter",
+        "box_delivery_marketplace_base",
+        "box_delivery_marketplace_coef",
+        "box_delivery_marketplace_liter",
+        "box_storage_base",
+        "box_storage_coef",
+        "box_storage_liter",
+    ],
+    pallet_rates: ["pallet_delivery_base", "pallet_delivery_coef", "pallet_delivery_liter", "pallet_storage_coef", "pallet_storage_value"],
+    return_rates: [
+        "return_kgt_office_base",
+        "return_kgt_office_liter",
+        "return_kgt_return",
+        "return_srg_office",
+        "return_srg_return",
+        "return_sup_courier_base",
+        "return_sup_courier_liter",
+        "return_sup_office_base",
+        "return_sup_office_liter",
+        "return_sup_return",
+    ],
+    commission_rates: ["commission_fbo", "commission_fbs", "commission_dbs", "commission_edbs", "commission_pickup", "commission_booking"],
+};
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    for (const [tableName, fields] of Object.entries(RATE_FIELDS)) {
+        await knex.schema.alterTable(tableName, (table) => {
+            for (const field of fields) {
+                table.setNullable(field);
+            }
+        });
+    }
+
+    await knex.schema.createTable("wb_quarantine", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+        table.uuid("seller_id").notNullable();
+
+        table.string("source").notNullable().comment("Вид данных: box | pallet | return | commission | acceptance");
+        table.jsonb("raw").notNullable().comment("Строка ответа WB как есть");
+        table.text("reason").notNullable().comment("Ошибки проверки");
+        table.timestamp("created_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+        table.index(["seller_id", "created_at"]);
+    });
+}
+
+/**
+ * Откат возможен, только если в тарифах нет недоступных (null) значений
+ *
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.dropTable("wb_quarantine");
+
+    for (const [tableName, fields] of Object.entries(RATE_FIELDS)) {
+        await knex.schema.alterTable(tableName, (table) => {
+            for (const field of fields) {
+                table.dropNullable(field);
+            }
+        });
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.createTable("sync_runs", (table) => {
+        table.uuid("id").primary().defaultTo(knex.raw("gen_random_uuid()"));
+
+        table.timestamp("started_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+        table.timestamp("finished_at", { useTz: true }).nullable();
+        table.string("status").notNullable().comment("running | succeeded | failed");
+        table.integer("sellers_count").notNullable().defaultTo(0);
+        table.integer("failed_sellers_count").notNullable().defaultTo(0);
+        table.jsonb("sellers").notNullable().defaultTo("[]").comment("Результаты по кабинетам: количество сохраненных тарифов, результаты записи в таблицы, ошибка");
+        table.text("error").nullable();
+
+        table.index(["started_at"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.dropTable("sync_runs");
+}
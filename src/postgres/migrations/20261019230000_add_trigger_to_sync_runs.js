@@ -0,0 +1,23 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.alterTable("sync_runs", (table) => {
+        table.string("trigger").notNullable().defaultTo("cron").comment("cron | cli | http - источник запуска");
+        table.string("status").notNullable().comment("running | succeeded | failed | skipped - предыдущий запуск еще выполнялся").alter();
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex("sync_runs").where("status", "skipped").delete();
+
+    return knex.schema.alterTable("sync_runs", (table) => {
+        table.dropColumn("trigger");
+        table.string("status").notNullable().comment("running | succeeded | failed").alter();
+    });
+}
@@ -0,0 +1,29 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("job_schedules", (table) => {
+        table.string("job_name").primary().comment("Имя задачи из реестра, например sync-rates");
+        table.string("schedule").nullable().comment("cron-выражение, null - задача не запускается по расписанию");
+        table.timestamp("updated_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+    });
+
+    await knex.schema.alterTable("sync_runs", (table) => {
+        table.string("job").notNullable().defaultTo("sync-rates").comment("sync-rates | publish-sheets");
+        table.index(["job", "started_at"]);
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.alterTable("sync_runs", (table) => {
+        table.dropIndex(["job", "started_at"]);
+        table.dropColumn("job");
+    });
+
+    await knex.schema.dropTable("job_schedules");
+}
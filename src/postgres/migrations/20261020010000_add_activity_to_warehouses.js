@@ -0,0 +1,21 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.alterTable("warehouses", (table) => {
+        table.boolean("is_active").notNullable().defaultTo(true).comment("false - склада нет в ответах WB и действующих тарифов на нем нет");
+        table.timestamp("last_seen_at", { useTz: true }).nullable().comment("Когда склад последний раз был в ответе WB");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.alterTable("warehouses", (table) => {
+        table.dropColumn("is_active");
+        table.dropColumn("last_seen_at");
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("rate_change_events", (table) => {
+        table.bigIncrements("id").primary();
+        table.uuid("seller_id").notNullable();
+
+        table.timestamp("changed_at", { useTz: true }).notNullable().comment("Начало нового периода тарифов");
+        table.string("rates_label").notNullable().comment("Вид тарифов: box | pallet | return | commission");
+        table.uuid("owner_id").notNullable().comment("Склад или предмет");
+        table.string("owner_name").notNullable();
+        table.jsonb("fields").notNullable().comment("Изменившиеся поля: field, old_value, new_value");
+
+        table.timestamp("created_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+        table.timestamp("published_at", { useTz: true }).nullable().comment("Дописано на лист history во всех таблицах кабинета, null - еще нет");
+
+        table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+        table.index(["seller_id", "published_at"]);
+    });
+
+    await knex.schema.createTable("rate_change_publications", (table) => {
+        table.string("spreadsheet_id").notNullable();
+        table.string("page_name").notNullable();
+
+        table.bigInteger("last_event_id").notNullable().comment("Последнее событие, дописанное на лист");
+        table.timestamp("published_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.primary(["spreadsheet_id", "page_name"]);
+        table.foreign("spreadsheet_id").references("spreadsheet_id").inTable("spreadsheets").onDelete("CASCADE");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.dropTable("rate_change_publications");
+    await knex.schema.dropTable("rate_change_events");
+}
@@ -0,0 +1,27 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    await knex.schema.createTable("alert_event_cursors", (table) => {
+        table.uuid("seller_id").primary();
+
+        table.bigInteger("last_event_id").notNullable().comment("Последнее событие rate_change_events, проверенное правилами уведомлений");
+        table.timestamp("updated_at", { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+        table.foreign("seller_id").references("id").inTable("sellers").onDelete("CASCADE");
+    });
+
+    // Уже сохраненные события проверялись правилами при синхронизации
+    await knex("alert_event_cursors").insert(
+        knex("rate_change_events").select("seller_id", knex.raw("max(id) as last_event_id")).groupBy("seller_id"),
+    );
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    await knex.schema.dropTable("alert_event_cursors");
+}
@@ -0,0 +1,20 @@
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function up(knex) {
+    return knex.schema.alterTable("spreadsheets", (table) => {
+        table.string("pallet_page_name").nullable().comment("Название листа с тарифами монопаллет, по умолчанию pallet_coefs");
+        table.string("commission_page_name").nullable().comment("Название листа с комиссиями, по умолчанию commissions");
+    });
+}
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function down(knex) {
+    return knex.schema.alterTable("spreadsheets", (table) => {
+        table.dropColumns("pallet_page_name", "commission_page_name");
+    });
+}
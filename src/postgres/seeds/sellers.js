@@ -0,0 +1,46 @@
+import { existsSync, readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function seed(knex) {
+    /** @type {{ name: string, wb_token: string }[]} */
+    const sellers = [];
+
+    // Кабинет по умолчанию - токен из WB_TOKEN
+    if (process.env.WB_TOKEN) {
+        sellers.push({ name: "default", wb_token: process.env.WB_TOKEN });
+    } else {
+        console.warn("WB_TOKEN not set, default seller is not created");
+    }
+
+    // Дополнительные кабинеты из JSON файла: [{ "name": "...", "wb_token": "..." }]
+    const configPath = process.env.SELLERS_CONFIG_PATH;
+    if (configPath) {
+        const sellersPath = join(__dirname, "../../../", configPath);
+        if (existsSync(sellersPath)) {
+            sellers.push(...JSON.parse(readFileSync(sellersPath, "utf-8")));
+        } else {
+            console.log(`Sellers config ${configPath} not found, skipping`);
+        }
+    }
+
+    if (sellers.length === 0) {
+        console.log("No sellers configured, skipping seller seeds");
+        return;
+    }
+
+    // Вставляем кабинеты, для существующих обновляем токен
+    await knex("sellers")
+        .insert(sellers.map((seller) => ({ name: seller.name, wb_token: seller.wb_token })))
+        .onConflict(["name"])
+        .merge(["wb_token"]);
+
+    console.log(`Loaded ${sellers.length} sellers`);
+}
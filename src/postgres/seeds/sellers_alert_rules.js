@@ -0,0 +1,69 @@
+import { existsSync, readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Правила уведомлений кабинетов (выполняется после sellers.js)
+ *
+ * @param {import("knex").Knex} knex
+ * @returns {Promise<void>}
+ */
+export async function seed(knex) {
+    const configPath = process.env.ALERT_RULES_CONFIG_PATH;
+
+    if (!configPath) {
+        console.log("ALERT_RULES_CONFIG_PATH not set, skipping alert rule seeds");
+        return;
+    }
+
+    const rulesPath = join(__dirname, "../../../", configPath);
+    if (!existsSync(rulesPath)) {
+        console.log(`Alert rules config ${configPath} not found, skipping`);
+        return;
+    }
+
+    /** @type {{ name: string, seller?: string, field: string, condition: string, value: number, geo_name?: string, warehouse_name?: string, webhook_url: string, cooldown_minutes?: number, is_active?: boolean }[]} */
+    const ruleEntries = JSON.parse(readFileSync(rulesPath, "utf-8"));
+
+    const sellers = await knex("sellers").select("id", "name");
+    const sellerIds = new Map(sellers.map((seller) => [seller.name, seller.id]));
+
+    const rules = [];
+    for (const { seller = "default", ...rule } of ruleEntries) {
+        const sellerId = sellerIds.get(seller);
+
+        if (!sellerId) {
+            console.log(`Seller '${seller}' not found, skipping alert rule '${rule.name}'`);
+            continue;
+        }
+
+        rules.push({
+            seller_id: sellerId,
+            name: rule.name,
+            field: rule.field,
+            condition: rule.condition,
+            value: rule.value,
+            geo_name: rule.geo_name ?? null,
+            warehouse_name: rule.warehouse_name ?? null,
+            webhook_url: rule.webhook_url,
+            cooldown_minutes: rule.cooldown_minutes ?? 60,
+            is_active: rule.is_active ?? true,
+        });
+    }
+
+    if (rules.length === 0) {
+        console.log("No alert rules to load");
+        return;
+    }
+
+    // Правило определяется кабинетом и названием, остальные поля обновляются
+    await knex("alert_rules")
+        .insert(rules)
+        .onConflict(["seller_id", "name"])
+        .merge(["field", "condition", "value", "geo_name", "warehouse_name", "webhook_url", "cooldown_minutes", "is_active"]);
+
+    console.log(`Loaded ${rules.length} alert rules`);
+}
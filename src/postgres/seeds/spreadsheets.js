@@ -19,18 +19,51 @@ export async function seed(knex) {
     }
     
     const spreadsheetPath = join(__dirname, "../../../", configPath);
-    const spreadsheetIds = JSON.parse(readFileSync(spreadsheetPath, "utf-8"));
-
-    // Преобразуем в объекты для вставки
-    const spreadsheetData = spreadsheetIds.map((/** @type {string} */ id) => ({
-        spreadsheet_id: id
-    }));
-
-    // Вставляем данные (игнорируем дубликаты)
-    await knex("spreadsheets")
-        .insert(spreadsheetData)
-        .onConflict(["spreadsheet_id"])
-        .ignore();
-        
-    console.log(`Loaded ${spreadsheetData.length} spreadsheet IDs from JSON`);
-}
\ No newline at end of file
+    /** @type {(string | { spreadsheet_id: string, seller?: string, [setting: string]: unknown })[]} */
+    const spreadsheetEntries = JSON.parse(readFileSync(spreadsheetPath, "utf-8"));
+
+    // Таблица может быть задана строкой (кабинет по умолчанию) или объектом с названием кабинета и настройками вывода
+    const sellers = await knex("sellers").select("id", "name");
+    const sellerIds = new Map(sellers.map((seller) => [seller.name, seller.id]));
+
+    let loadedCount = 0;
+    for (const entry of spreadsheetEntries) {
+        const { spreadsheet_id, seller = "default", ...settings } = typeof entry === "string" ? { spreadsheet_id: entry } : entry;
+        const sellerId = sellerIds.get(seller);
+
+        if (!sellerId) {
+            console.log(`Seller '${seller}' not found, skipping spreadsheet ${spreadsheet_id}`);
+            continue;
+        }
+
+        const unknownSettings = Object.keys(settings).filter((key) => !SETTINGS_KEYS.includes(key));
+        if (unknownSettings.length > 0) {
+            console.log(`Unknown settings ${unknownSettings.join(", ")} of spreadsheet ${spreadsheet_id} are ignored`);
+        }
+
+        // Массивы хранятся в jsonb-колонках
+        const settingsData = Object.fromEntries(
+            SETTINGS_KEYS.filter((key) => key in settings).map((key) => [
+                key,
+                Array.isArray(settings[key]) ? JSON.stringify(settings[key]) : settings[key],
+            ]),
+        );
+
+        // Для существующих таблиц обновляем кабинет и только явно заданные настройки
+        await knex("spreadsheets")
+            .insert({ spreadsheet_id, seller_id: sellerId, ...settingsData })
+            .onConflict(["spreadsheet_id"])
+            .merge(["seller_id", ...Object.keys(settingsData)]);
+        loadedCount++;
+    }
+
+    if (loadedCount === 0) {
+        console.log("No spreadsheets to load");
+        return;
+    }
+
+    console.log(`Loaded ${loadedCount} spreadsheet IDs from JSON`);
+}
+
+/** Настройки вывода, которые можно задать для таблицы в JSON */
+const SETTINGS_KEYS = ["page_name", "pallet_page_name", "commission_page_name", "columns", "geo_names", "warehouse_names", "sort_key", "sort_direction", "locale", "timezone"];
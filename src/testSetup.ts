@@ -0,0 +1,14 @@
+/**
+ * Переменные окружения для тестов: тесты не читают .env и не подключаются к БД
+ */
+// jest выставляет NODE_ENV=test, а конфигурация знает только development и production
+process.env.NODE_ENV = "development";
+process.env.POSTGRES_PORT = "5432";
+process.env.WB_API_MODE = "mock";
+process.env.POSTGRES_DB = "postgres";
+process.env.POSTGRES_USER = "postgres";
+process.env.POSTGRES_PASSWORD = "postgres";
+process.env.SPREADSHEET_PAGE_NAME = "stocks_coefs";
+process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH = "./spreadsheetsServiceAccountKey.json";
+process.env.GOOGLE_SPREADSHEETS_CONFIG_PATH = "./spreadsheets.json";
+process.env.LOG_LEVEL = process.env.LOG_LEVEL ?? "error";
@@ -0,0 +1,69 @@
+import { Command } from "commander";
+import { JOBS } from "#cron/jobs/registry.js";
+import { runJob } from "#cron/jobs/runJob.js";
+import { DISABLED_SCHEDULE, getJobSchedules, resetJobSchedule, setJobSchedule } from "#cron/jobs/schedules.js";
+const program = new Command();
+
+program
+    .command("list")
+    .description("list registered jobs with their effective schedules")
+    .action(async () => {
+        try {
+            const schedules = new Map((await getJobSchedules()).map((schedule) => [schedule.job, schedule]));
+            console.table(
+                JOBS.map((job) => ({
+                    name: job.name,
+                    schedule: schedules.get(job.name)?.schedule ?? "-",
+                    source: schedules.get(job.name)?.source,
+                    timeout_min: job.timeoutMs / 60_000,
+                    depends_on: job.dependsOn.join(", "),
+                    description: job.description,
+                })),
+            );
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("run")
+    .description("run a job now, then the jobs that depend on it")
+    .argument("<name>", `job name: ${JOBS.map((job) => job.name).join(", ")}`)
+    .option("--no-dependents", "do not run the dependent jobs")
+    .action(async (name, options) => {
+        try {
+            const runs = await runJob(name, "cli", options.dependents);
+            for (const run of runs) {
+                console.log(`${run.job}: ${run.status} in ${run.duration_ms} ms${run.run_id ? ` (run ${run.run_id})` : ""}${run.error ? ` - ${run.error}` : ""}`);
+            }
+            process.exit(runs.every((run) => run.status === "succeeded") ? 0 : 1);
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+program
+    .command("schedule")
+    .description(`override the schedule of a job in the database ("${DISABLED_SCHEDULE}" disables it), picked up by the app within a minute`)
+    .argument("<name>", "job name")
+    .argument("[expression]", `cron expression or "${DISABLED_SCHEDULE}"`)
+    .option("--reset", "remove the override and use JOB_SCHEDULES or the default schedule")
+    .action(async (name, expression, options) => {
+        try {
+            if (options.reset) {
+                await resetJobSchedule(name);
+                console.log(`Schedule override of ${name} removed`);
+            } else if (expression) {
+                await setJobSchedule(name, expression);
+                console.log(`Schedule of ${name} set to '${expression}'`);
+            } else {
+                throw new Error("Pass a cron expression, \"off\" or --reset");
+            }
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program.parse();
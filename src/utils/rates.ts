@@ -0,0 +1,301 @@
+import { Command } from "commander";
+import { z } from "zod";
+import { CostCalculation, CostCalculator, VolumeCost } from "#cron/services/CostCalculator.js";
+import { costCalculationInputSchema, warehouseRankingInputSchema } from "#cron/services/costCalculation.js";
+import { RatesPeriod, RatesTimelineService, RatesWarehouse } from "#cron/services/RatesTimelineService.js";
+import { ratesAsOfInputSchema, ratesBetweenInputSchema, WAREHOUSE_RATES_KINDS } from "#cron/services/ratesTimeline.js";
+import { SellerService } from "#cron/services/SellerService.js";
+import { SYNC_RUN_STATUSES, SyncRunRow, SyncRunService } from "#cron/services/SyncRunService.js";
+import { backfillRates } from "#cron/backfillRates.js";
+const program = new Command();
+
+const dayOptionSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const syncRunsInputSchema = z.object({
+    limit: z.coerce.number().int().min(1),
+    status: z.enum(SYNC_RUN_STATUSES).optional(),
+});
+
+const backfillInputSchema = z
+    .object({
+        from: dayOptionSchema,
+        to: dayOptionSchema,
+        seller: z.string().optional(),
+        delay: z.coerce.number().int().min(0),
+    })
+    .refine((input) => input.from <= input.to, { message: "--from must not be after --to" });
+
+program
+    .command("cost")
+    .description("calculate FBO/FBS logistics and storage costs of a product at a warehouse")
+    .requiredOption("--warehouse <name>", "warehouse name")
+    .option("--seller <name>", "seller cabinet name", "default")
+    .option("--volume <liters>", "product volume in liters")
+    .option("--length <cm>", "product length in cm")
+    .option("--width <cm>", "product width in cm")
+    .option("--height <cm>", "product height in cm")
+    .option("--quantity <count>", "number of units", "1")
+    .option("--days <count>", "storage duration in days", "0")
+    .option("--at <date>", "point in time of the rates (ISO date), now by default")
+    .option("--json", "print the result as JSON")
+    .action(async (options) => {
+        const seller = await new SellerService().findSellerByName(options.seller);
+        if (!seller) {
+            console.error(`Seller '${options.seller}' not found`);
+            process.exit(1);
+        }
+
+        try {
+            const input = costCalculationInputSchema.parse({
+                seller_id: seller.id,
+                warehouse_name: options.warehouse,
+                volume_liters: options.volume,
+                length_cm: options.length,
+                width_cm: options.width,
+                height_cm: options.height,
+                quantity: options.quantity,
+                storage_days: options.days,
+                at: options.at,
+            });
+
+            const result = await new CostCalculator().calculate(input);
+            console.log(options.json ? JSON.stringify(result, null, 2) : formatCostCalculation(result));
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("rank")
+    .description("rank warehouses by FBO logistics plus storage cost of a product")
+    .option("--seller <name>", "seller cabinet name", "default")
+    .option("--regions <names>", "comma-separated list of target regions (geo names)")
+    .option("--volume <liters>", "product volume in liters")
+    .option("--length <cm>", "product length in cm")
+    .option("--width <cm>", "product width in cm")
+    .option("--height <cm>", "product height in cm")
+    .option("--quantity <count>", "number of units", "1")
+    .option("--days <count>", "storage duration in days", "30")
+    .option("--at <date>", "point in time of the rates (ISO date), now by default")
+    .option("--limit <count>", "number of warehouses to show", "20")
+    .option("--json", "print the result as JSON")
+    .action(async (options) => {
+        const seller = await new SellerService().findSellerByName(options.seller);
+        if (!seller) {
+            console.error(`Seller '${options.seller}' not found`);
+            process.exit(1);
+        }
+
+        try {
+            const input = warehouseRankingInputSchema.parse({
+                seller_id: seller.id,
+                geo_names: options.regions,
+                volume_liters: options.volume,
+                length_cm: options.length,
+                width_cm: options.width,
+                height_cm: options.height,
+                quantity: options.quantity,
+                storage_days: options.days,
+                at: options.at,
+            });
+
+            const ranking = (await new CostCalculator().rankWarehouses(input)).slice(0, Number(options.limit));
+            if (options.json) {
+                console.log(JSON.stringify(ranking, null, 2));
+            } else {
+                console.table(ranking.map(({ id, ...row }) => row));
+            }
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("as-of")
+    .description("show warehouse rates that were in force at the point in time")
+    .argument("<date>", "point in time, ISO date, e.g. 2026-03-03T14:00:00+03:00")
+    .option("--seller <name>", "seller cabinet name, all sellers by default")
+    .option("--warehouse <name>", "warehouse name")
+    .option("--region <name>", "warehouse region (geo name)")
+    .option("--rates <kinds>", `comma-separated rates kinds: ${WAREHOUSE_RATES_KINDS.join(", ")} (all by default)`)
+    .option("--json", "print the result as JSON")
+    .action(async (date, options) => {
+        try {
+            const input = ratesAsOfInputSchema.parse({
+                at: date,
+                seller_id: await findSellerId(options.seller),
+                warehouse_name: options.warehouse,
+                geo_name: options.region,
+                rates: options.rates,
+            });
+
+            const rows = await new RatesTimelineService().asOf(input);
+            if (options.json) {
+                console.log(JSON.stringify(rows, null, 2));
+            } else {
+                console.table(rows.flatMap((row) => Object.entries(row.rates).map(([kind, period]) => formatRatesPeriod(row, kind, period))));
+            }
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("timeline")
+    .description("show periods of warehouse rates in force between two points in time")
+    .requiredOption("--from <date>", "start of the interval, ISO date")
+    .requiredOption("--to <date>", "end of the interval, ISO date")
+    .option("--seller <name>", "seller cabinet name, all sellers by default")
+    .option("--warehouse <name>", "warehouse name")
+    .option("--region <name>", "warehouse region (geo name)")
+    .option("--rates <kinds>", `comma-separated rates kinds: ${WAREHOUSE_RATES_KINDS.join(", ")} (all by default)`)
+    .option("--limit <count>", "number of warehouses on the page", "100")
+    .option("--cursor <cursor>", "cursor of the next page from the previous output")
+    .option("--json", "print the result as JSON")
+    .action(async (options) => {
+        try {
+            const input = ratesBetweenInputSchema.parse({
+                limit: options.limit,
+                cursor: options.cursor,
+                from: options.from,
+                to: options.to,
+                seller_id: await findSellerId(options.seller),
+                warehouse_name: options.warehouse,
+                geo_name: options.region,
+                rates: options.rates,
+            });
+
+            const page = await new RatesTimelineService().between(input);
+            if (options.json) {
+                console.log(JSON.stringify(page, null, 2));
+            } else {
+                console.table(
+                    page.data.flatMap((timeline) =>
+                        Object.entries(timeline.periods).flatMap(([kind, periods]) => (periods ?? []).map((period) => formatRatesPeriod(timeline, kind, period))),
+                    ),
+                );
+                if (page.next_cursor) {
+                    console.log(`Next page: --cursor ${page.next_cursor}`);
+                }
+            }
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("backfill")
+    .description("load box rates history for past dates (resumes from the first day not loaded yet)")
+    .requiredOption("--from <date>", "first day, YYYY-MM-DD")
+    .requiredOption("--to <date>", "last day, YYYY-MM-DD")
+    .option("--seller <name>", "seller cabinet name, all active sellers by default")
+    .option("--delay <ms>", "pause between WB API requests", "1000")
+    .action(async (options) => {
+        try {
+            const input = backfillInputSchema.parse(options);
+            await backfillRates({ from: input.from, to: input.to, sellerName: input.seller, delayMs: input.delay });
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program
+    .command("runs")
+    .description("list recent runs of the rates synchronization and sheets publishing jobs")
+    .option("--limit <count>", "number of runs to show", "20")
+    .option("--job <name>", "only runs of the job: sync-rates, publish-sheets, sync-acceptance")
+    .option("--status <status>", `only runs with the status: ${SYNC_RUN_STATUSES.join(", ")}`)
+    .option("--seller <name>", "only runs that synchronized the seller cabinet")
+    .option("--json", "print the result as JSON")
+    .action(async (options) => {
+        try {
+            const input = syncRunsInputSchema.parse(options);
+
+            const sellerId = await findSellerId(options.seller);
+
+            const runs = await new SyncRunService().getRuns({ job: options.job, status: input.status, sellerId }, { limit: input.limit, offset: 0 });
+            if (options.json) {
+                console.log(JSON.stringify(runs.data, null, 2));
+            } else {
+                console.table(runs.data.map(formatSyncRun));
+            }
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program.command("default", { isDefault: true }).action(() => {});
+program.parse();
+
+function formatCostCalculation(result: CostCalculation): string {
+    const NOT_AVAILABLE = "not available";
+    const formatVolumeCost = (title: string, cost: VolumeCost | null, unit: string) =>
+        cost
+            ? `${title}: ${cost.per_unit.toFixed(2)} ₽${unit} x ${result.quantity} = ${cost.total.toFixed(2)} ₽\n` +
+              `  first liter ${cost.first_liter.toFixed(2)} ₽ + ${cost.extra_liters} extra l x ${cost.extra_liter_rate.toFixed(2)} ₽ (coef ${cost.coef ?? "-"})`
+            : `${title}: ${NOT_AVAILABLE}`;
+
+    return [
+        `Warehouse: ${result.warehouse.geo_name} - ${result.warehouse.warehouse_name}`,
+        `Rates at ${result.at} (period from ${new Date(result.tariff_period.start_date).toISOString()})`,
+        `Volume: ${result.volume_liters} l, quantity: ${result.quantity}`,
+        formatVolumeCost("FBO logistics", result.fbo_logistics, "/unit"),
+        formatVolumeCost("FBS logistics", result.fbs_logistics, "/unit"),
+        formatVolumeCost("Storage per day", result.storage.per_day, "/unit"),
+        `Storage for ${result.storage.days} days: ${result.storage.total !== null ? `${result.storage.total.toFixed(2)} ₽` : NOT_AVAILABLE}`,
+        `Total FBO (logistics + storage): ${result.total_fbo !== null ? `${result.total_fbo.toFixed(2)} ₽` : NOT_AVAILABLE}`,
+    ].join("\n");
+}
+
+/**
+ * ID кабинета по имени; без имени - все кабинеты
+ */
+async function findSellerId(name: string | undefined): Promise<string | undefined> {
+    if (!name) return undefined;
+
+    const seller = await new SellerService().findSellerByName(name);
+    if (!seller) throw new Error(`Seller '${name}' not found`);
+    return seller.id;
+}
+
+/**
+ * Строка таблицы: склад, вид тарифов, период и значения тарифов без префикса вида
+ */
+function formatRatesPeriod(warehouse: RatesWarehouse, kind: string, period: RatesPeriod | null) {
+    return {
+        warehouse: `${warehouse.geo_name} - ${warehouse.warehouse_name}`,
+        seller_id: warehouse.seller_id,
+        rates: kind,
+        from: period ? period.start_date.toISOString() : "",
+        to: period ? (period.end_date?.toISOString() ?? "") : "",
+        values: period
+            ? Object.entries(period.values)
+                  .map(([field, value]) => `${field.replace(`${kind}_`, "")}=${value ?? "-"}`)
+                  .join(" ")
+            : "no rates",
+    };
+}
+
+function formatSyncRun(run: SyncRunRow) {
+    const spreadsheets = run.sellers.flatMap((seller) => seller.spreadsheets);
+    const countSheets = (status: string) => spreadsheets.filter((outcome) => outcome.status === status).length;
+
+    return {
+        started_at: run.started_at.toISOString(),
+        job: run.job,
+        trigger: run.trigger,
+        duration_s: run.finished_at ? Math.round((run.finished_at.getTime() - run.started_at.getTime()) / 1000) : null,
+        status: run.status,
+        sellers: `${run.sellers_count - run.failed_sellers_count}/${run.sellers_count}`,
+        sheets_updated: countSheets("updated") + countSheets("appended"),
+        sheets_unchanged: countSheets("unchanged"),
+        sheets_failed: countSheets("failed"),
+        error: run.error ?? "",
+    };
+}
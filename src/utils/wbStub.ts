@@ -0,0 +1,72 @@
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { WB_ENDPOINTS, WbEndpointName } from "#cron/services/wbEndpoints.js";
+import { recordWbFixtures } from "#wbStub/recordFixtures.js";
+import { DEFAULT_SCENARIO, startWbStubServer } from "#wbStub/server.js";
+dotenv.config();
+const program = new Command();
+
+const DEFAULT_FIXTURES_DIR = "./fixtures/wb";
+const ENDPOINT_NAMES = Object.keys(WB_ENDPOINTS) as WbEndpointName[];
+
+const serveInputSchema = z.object({
+    port: z.coerce.number().int().min(1).max(65535),
+    fixtures: z.string(),
+    scenario: z.string(),
+    latency: z.coerce.number().int().min(0),
+});
+
+const recordInputSchema = z.object({
+    token: z.string({ required_error: "--token or WB_TOKEN is required" }).min(1, "--token or WB_TOKEN is required"),
+    fixtures: z.string(),
+    scenario: z.string(),
+    endpoints: z
+        .string()
+        .transform((value) => value.split(",").map((name) => name.trim()))
+        .pipe(z.array(z.enum(ENDPOINT_NAMES as [WbEndpointName, ...WbEndpointName[]]))),
+    baseUrl: z.string().url().optional(),
+});
+
+program
+    .command("serve")
+    .description("serve recorded WB API responses from the fixtures directory")
+    .option("--port <port>", "port to listen on", "8090")
+    .option("--fixtures <dir>", "fixtures directory", DEFAULT_FIXTURES_DIR)
+    .option("--scenario <name>", "scenario (fixtures subdirectory) to serve", DEFAULT_SCENARIO)
+    .option("--latency <ms>", "delay before each response", "0")
+    .action(async (options) => {
+        try {
+            const input = serveInputSchema.parse(options);
+            await startWbStubServer(input.port, { fixturesDir: input.fixtures, scenario: input.scenario, latencyMs: input.latency });
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+program
+    .command("record")
+    .description("record WB API responses into a scenario of the fixtures directory")
+    .requiredOption("--scenario <name>", "scenario (fixtures subdirectory) to write")
+    .option("--token <token>", "WB API token, WB_TOKEN by default")
+    .option("--fixtures <dir>", "fixtures directory", DEFAULT_FIXTURES_DIR)
+    .option("--endpoints <names>", `comma-separated endpoints: ${ENDPOINT_NAMES.join(", ")}`, ENDPOINT_NAMES.join(","))
+    .option("--base-url <url>", "WB API base URL instead of the production hosts")
+    .action(async (options) => {
+        try {
+            const input = recordInputSchema.parse({ ...options, token: options.token ?? process.env.WB_TOKEN });
+            const files = await recordWbFixtures({
+                token: input.token,
+                fixturesDir: input.fixtures,
+                scenario: input.scenario,
+                endpoints: input.endpoints,
+                baseUrl: input.baseUrl,
+            });
+            console.log(`Recorded ${files.length} responses into scenario '${input.scenario}'`);
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        process.exit(0);
+    });
+program.parse();
@@ -0,0 +1,57 @@
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "#cron/utils/Logger.js";
+import { HttpClient } from "#cron/services/http/HttpClient.js";
+import { WB_API_HOSTS, WB_ENDPOINTS, WbApiName, WbEndpointName } from "#cron/services/wbEndpoints.js";
+
+const logger = new Logger("RecordWbFixtures");
+
+/**
+ * Параметры запросов при записи (тарифы запрашиваются на текущую дату)
+ */
+function getRecordParams(name: WbEndpointName): Record<string, string> {
+    if (name === "commission") return { locale: "ru" };
+    if (name === "acceptance") return {};
+    return { date: new Date().toISOString().split("T")[0] };
+}
+
+/**
+ * Запись ответов WB API в каталог сценария заглушки: ответы сохраняются как есть, без разбора
+ */
+export async function recordWbFixtures(options: RecordWbFixturesOptions): Promise<string[]> {
+    const scenarioDir = path.join(options.fixturesDir, options.scenario);
+    await fs.mkdir(scenarioDir, { recursive: true });
+
+    const headers = { Authorization: `Bearer ${options.token}` };
+    const clients = new Map<WbApiName, HttpClient>();
+    const getClient = (api: WbApiName) => {
+        let client = clients.get(api);
+        if (!client) {
+            client = new HttpClient(`wb-${api}-api`, options.baseUrl ?? WB_API_HOSTS[api], headers);
+            clients.set(api, client);
+        }
+        return client;
+    };
+
+    const recorded: string[] = [];
+    for (const name of options.endpoints) {
+        const endpoint = WB_ENDPOINTS[name];
+        const data = await getClient(endpoint.api).getJson<unknown>(endpoint.path, getRecordParams(name));
+
+        const file = path.join(scenarioDir, `${name}.json`);
+        await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+        logger.info(`Recorded ${endpoint.path} to ${file}`);
+        recorded.push(file);
+    }
+
+    return recorded;
+}
+
+export interface RecordWbFixturesOptions {
+    token: string;
+    fixturesDir: string;
+    scenario: string;
+    endpoints: WbEndpointName[];
+    /** Адрес WB API вместо хостов по умолчанию */
+    baseUrl?: string;
+}
@@ -0,0 +1,161 @@
+import express, { Request, Response } from "express";
+import fs from "fs/promises";
+import { Server } from "http";
+import path from "path";
+import { z } from "zod";
+import { Logger } from "#cron/utils/Logger.js";
+import { WB_ENDPOINTS, WbEndpointName } from "#cron/services/wbEndpoints.js";
+
+const logger = new Logger("WbStubServer");
+
+/**
+ * Ответы с ошибкой, которые заглушка отдает вместо фикстур (по одному на запрос, по порядку)
+ */
+const stubFaultsSchema = z.array(
+    z.object({
+        status: z.number().int().min(400).max(599),
+        headers: z.record(z.string()).default({}),
+        body: z.unknown().optional(),
+    }),
+);
+
+/**
+ * Сценарий, из которого берутся ответы, отсутствующие в выбранном
+ */
+export const DEFAULT_SCENARIO = "default";
+
+/**
+ * Заглушка WB API: отдает записанные ответы из каталога фикстур <fixturesDir>/<сценарий>/<эндпоинт>.json.
+ * Сценарий можно переключить между запусками синхронизации через PUT /__stub/scenario/:name
+ */
+export function createWbStubApp(options: WbStubOptions) {
+    const app = express();
+    let scenario = options.scenario;
+    let faults: StubFault[] = [];
+    let requestsCount = 0;
+
+    app.disable("x-powered-by");
+
+    app.get("/__stub/scenario", async (req: Request, res: Response) => {
+        res.json({ scenario, scenarios: await listScenarios(options.fixturesDir) });
+    });
+
+    app.put("/__stub/scenario/:name", async (req: Request, res: Response) => {
+        const scenarios = await listScenarios(options.fixturesDir);
+        if (!scenarios.includes(req.params.name)) {
+            res.status(404).json({ error: `Scenario '${req.params.name}' not found`, scenarios });
+            return;
+        }
+
+        scenario = req.params.name;
+        logger.info(`Switched to scenario '${scenario}'`);
+        res.json({ scenario });
+    });
+
+    /**
+     * Очередь ошибок для проверки повторов, Retry-After и предохранителя клиента; пустой массив очищает очередь
+     */
+    app.put("/__stub/faults", express.json(), (req: Request, res: Response) => {
+        const parsed = stubFaultsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ error: "Expected an array of { status, headers?, body? }", details: parsed.error.issues });
+            return;
+        }
+
+        faults = parsed.data;
+        logger.info(`Queued ${faults.length} faults`);
+        res.json({ faults: faults.length });
+    });
+
+    /**
+     * Количество запросов к эндпоинтам WB с запуска заглушки и оставшиеся в очереди ошибки
+     */
+    app.get("/__stub/requests", (req: Request, res: Response) => {
+        res.json({ requests: requestsCount, pending_faults: faults.length });
+    });
+
+    for (const [name, endpoint] of Object.entries(WB_ENDPOINTS) as [WbEndpointName, (typeof WB_ENDPOINTS)[WbEndpointName]][]) {
+        app.get(endpoint.path, async (req: Request, res: Response) => {
+            requestsCount++;
+
+            const fault = faults.shift();
+            if (fault) {
+                logger.info(`GET ${req.originalUrl} -> fault ${fault.status}`);
+                res.status(fault.status).set(fault.headers).json(fault.body ?? { title: "stub fault", status: fault.status });
+                return;
+            }
+
+            // Как и WB API, без токена запрос отклоняется
+            if (!req.headers.authorization) {
+                res.status(401).json({ title: "unauthorized", detail: "empty Authorization header", status: 401 });
+                return;
+            }
+
+            const body = await readFixture(options.fixturesDir, scenario, name);
+            if (body === null) {
+                res.status(404).json({ error: `No fixture '${name}' in scenario '${scenario}' or '${DEFAULT_SCENARIO}'` });
+                return;
+            }
+
+            if (options.latencyMs > 0) await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+
+            logger.info(`GET ${req.originalUrl} -> ${scenario}/${name}.json`);
+            res.type("application/json").send(body);
+        });
+    }
+
+    app.use((req: Request, res: Response) => {
+        res.status(404).json({ error: "Not found" });
+    });
+
+    return app;
+}
+
+/**
+ * Запуск заглушки WB API
+ */
+export async function startWbStubServer(port: number, options: WbStubOptions): Promise<Server> {
+    const scenarios = await listScenarios(options.fixturesDir);
+    if (!scenarios.includes(options.scenario)) {
+        throw new Error(`Scenario '${options.scenario}' not found in ${options.fixturesDir}, available: ${scenarios.join(", ") || "none"}`);
+    }
+
+    return new Promise((resolve, reject) => {
+        const server = createWbStubApp(options).listen(port, () => {
+            logger.info(`WB stub listening on port ${port}, scenario '${options.scenario}', scenarios: ${scenarios.join(", ")}`);
+            resolve(server);
+        });
+        server.once("error", reject);
+    });
+}
+
+/**
+ * Сценарии - подкаталоги каталога фикстур
+ */
+export async function listScenarios(fixturesDir: string): Promise<string[]> {
+    const entries = await fs.readdir(fixturesDir, { withFileTypes: true }).catch(() => []);
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+}
+
+/**
+ * Ответ эндпоинта в сценарии (или в сценарии по умолчанию), null - фикстуры нет
+ */
+async function readFixture(fixturesDir: string, scenario: string, name: WbEndpointName): Promise<string | null> {
+    for (const dir of new Set([scenario, DEFAULT_SCENARIO])) {
+        try {
+            return await fs.readFile(path.join(fixturesDir, dir, `${name}.json`), "utf-8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+    }
+    return null;
+}
+
+type StubFault = z.infer<typeof stubFaultsSchema>[number];
+
+export interface WbStubOptions {
+    fixturesDir: string;
+    scenario: string;
+    /** Задержка ответа, мс */
+    latencyMs: number;
+}